@@ -0,0 +1,49 @@
+// Compares serial and worker-pool builds over random leaves.
+//
+//	pnpm bench [leaves] [leafBytes] [workers]
+//
+// Runs against the compiled package in dist/.
+const os = require('os');
+const crypto = require('crypto');
+const { TernaryMeshTree, defaultConfig, hashToHex } = require('../dist');
+
+const leaves = Number(process.argv[2]) || 200000;
+const leafBytes = Number(process.argv[3]) || 1024;
+const cpus = os.cpus().length;
+const workers = Number(process.argv[4]) || Math.max(2, cpus);
+
+async function run(label, cfg, blocks) {
+  const tree = new TernaryMeshTree({ ...defaultConfig(), ...cfg });
+  const start = process.hrtime.bigint();
+  await tree.build(blocks);
+  const ms = Number(process.hrtime.bigint() - start) / 1e6;
+  await tree.close();
+  const root = hashToHex(tree.getRootHash()[0]).slice(0, 16);
+  console.log(`${label.padEnd(8)} ${ms.toFixed(1).padStart(9)} ms  ${root}`);
+  return ms;
+}
+
+async function main() {
+  console.log(
+    `${leaves} x ${leafBytes} bytes, ${workers} workers, ${cpus} cpus`
+  );
+  const blocks = [];
+  for (let i = 0; i < leaves; i++) {
+    blocks.push(crypto.randomBytes(leafBytes));
+  }
+
+  // caching keys every leaf by its bytes, which dominates both runs
+  const base = { enableCaching: false, enableMetrics: false };
+  const serial = await run('serial', { ...base, parallelThreshold: 0 }, blocks);
+  const pooled = await run(
+    'workers',
+    { ...base, workers, parallelThreshold: 1000 },
+    blocks
+  );
+  console.log(`speedup  ${(serial / pooled).toFixed(2)}x`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
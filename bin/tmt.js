@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// The tmt command. Runs the CLI entry of the compiled package in dist/.
+const { runCli } = require('../dist/cli.cjs.production.min.js');
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
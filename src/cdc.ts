@@ -0,0 +1,298 @@
+// Content-defined chunking: splits a byte stream where its content says so
+// (FastCDC), so an edit moves only the boundaries near it, and records the
+// chunks of a file in a manifest backed by a store keyed by leaf hash.
+
+import {
+  ErrorMessages,
+  Hash,
+  HashScheme,
+  hashToHex,
+  TernaryMeshTree,
+  TMTError,
+} from './index';
+import { ByteSource, toAsyncIterable } from './stream';
+
+// CdcOptions bound chunk sizes in bytes; avgSize is the size chunks are
+// normalized toward.
+export interface CdcOptions {
+  minSize: number;
+  avgSize: number;
+  maxSize: number;
+}
+
+export function defaultCdcOptions(): CdcOptions {
+  return { minSize: 4 << 10, avgSize: 16 << 10, maxSize: 64 << 10 };
+}
+
+// The gear table maps each byte to a pseudo-random 32-bit value. It fixes
+// where chunks are cut, so changing the seed changes every boundary.
+const GEAR_SEED = 0x746d7463; // "tmtc"
+let gear: Uint32Array | null = null;
+
+// cdcStream splits a byte stream into chunks of minSize..maxSize bytes
+// whose boundaries depend only on the bytes before them; only the last
+// chunk may be shorter than minSize. Empty input yields no chunks.
+export async function* cdcStream(
+  source: ByteSource,
+  opts: CdcOptions = defaultCdcOptions()
+): AsyncGenerator<Uint8Array> {
+  checkCdcOptions(opts);
+
+  const buf = new Uint8Array(opts.maxSize);
+  let fill = 0;
+  for await (const part of toAsyncIterable(source)) {
+    let off = 0;
+    while (off < part.length) {
+      const n = Math.min(buf.length - fill, part.length - off);
+      buf.set(part.subarray(off, off + n), fill);
+      fill += n;
+      off += n;
+      if (fill === buf.length) {
+        const cut = findCut(buf, fill, opts);
+        yield buf.slice(0, cut);
+        buf.copyWithin(0, cut, fill);
+        fill -= cut;
+      }
+    }
+  }
+  while (fill > 0) {
+    const cut = findCut(buf, fill, opts);
+    yield buf.slice(0, cut);
+    buf.copyWithin(0, cut, fill);
+    fill -= cut;
+  }
+}
+
+// findCut returns the length of the next chunk at the start of buf[0:n].
+// Bytes before minSize are skipped; up to avgSize the harder mask applies
+// and after it the easier one, which pulls chunk sizes toward avgSize.
+function findCut(buf: Uint8Array, n: number, opts: CdcOptions): number {
+  if (n <= opts.minSize) {
+    return n;
+  }
+  const g = gearTable();
+  const bits = Math.round(Math.log(opts.avgSize) / Math.LN2);
+  const maskS = topBits(bits + 1);
+  const maskL = topBits(bits - 1);
+  const end = Math.min(n, opts.maxSize);
+  const normal = Math.min(end, opts.avgSize);
+
+  let hash = 0;
+  let i = opts.minSize;
+  for (; i < normal; i++) {
+    hash = ((hash << 1) + g[buf[i]]) >>> 0;
+    if ((hash & maskS) === 0) {
+      return i + 1;
+    }
+  }
+  for (; i < end; i++) {
+    hash = ((hash << 1) + g[buf[i]]) >>> 0;
+    if ((hash & maskL) === 0) {
+      return i + 1;
+    }
+  }
+  return end;
+}
+
+// topBits masks the n high bits of the hash, which depend on the most
+// recent 32 bytes; low bits would only see the last few.
+function topBits(n: number): number {
+  const k = Math.min(Math.max(n, 1), 31);
+  return ~((1 << (32 - k)) - 1);
+}
+
+function gearTable(): Uint32Array {
+  if (gear === null) {
+    // mulberry32
+    let s = GEAR_SEED;
+    gear = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      s = (s + 0x6d2b79f5) | 0;
+      let t = Math.imul(s ^ (s >>> 15), 1 | s);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      gear[i] = (t ^ (t >>> 14)) >>> 0;
+    }
+  }
+  return gear;
+}
+
+function checkCdcOptions(opts: CdcOptions): void {
+  const { minSize, avgSize, maxSize } = opts;
+  if (
+    !Number.isInteger(minSize) ||
+    !Number.isInteger(avgSize) ||
+    !Number.isInteger(maxSize) ||
+    minSize < 1 ||
+    minSize > avgSize ||
+    avgSize > maxSize
+  ) {
+    throw new TMTError(
+      `${ErrorMessages.INVALID_CHUNK_SIZE}: need 1 <= min <= avg <= max, got ${minSize}/${avgSize}/${maxSize}`
+    );
+  }
+}
+
+// ---------------------- Chunk stores ----------------------
+
+// ChunkStore holds chunk bytes by their leaf hash. Callers must not modify
+// returned chunks, nor written ones afterwards.
+export interface ChunkStore {
+  has(hash: Hash): boolean;
+  get(hash: Hash): Uint8Array | undefined;
+  put(hash: Hash, data: Uint8Array): void;
+}
+
+// MemoryChunkStore keeps chunks on the heap.
+export class MemoryChunkStore implements ChunkStore {
+  private chunks = new Map<string, Uint8Array>();
+
+  has(hash: Hash): boolean {
+    return this.chunks.has(hashToHex(hash));
+  }
+
+  get(hash: Hash): Uint8Array | undefined {
+    return this.chunks.get(hashToHex(hash));
+  }
+
+  put(hash: Hash, data: Uint8Array): void {
+    this.chunks.set(hashToHex(hash), data);
+  }
+
+  size(): number {
+    return this.chunks.size;
+  }
+}
+
+// FileChunkStore keeps one file per chunk under dir, at <hh>/<hex> where hh
+// is the first byte of the hash. A chunk is written to a temporary file and
+// renamed into place, so a crash never leaves a partial chunk. Node only.
+export class FileChunkStore implements ChunkStore {
+  private fs: typeof import('fs');
+  private path: typeof import('path');
+  private dir: string;
+
+  constructor(dir: string) {
+    // browser bundles map fs to an empty module
+    if (typeof require !== 'function' || !require('fs').renameSync) {
+      throw new TMTError(
+        `${ErrorMessages.UNSUPPORTED}: FileChunkStore needs Node's fs module`
+      );
+    }
+    this.fs = require('fs');
+    this.path = require('path');
+    this.dir = dir;
+    this.fs.mkdirSync(dir, { recursive: true });
+  }
+
+  has(hash: Hash): boolean {
+    return this.fs.existsSync(this.file(hash));
+  }
+
+  get(hash: Hash): Uint8Array | undefined {
+    const file = this.file(hash);
+    if (!this.fs.existsSync(file)) {
+      return undefined;
+    }
+    return new Uint8Array(this.fs.readFileSync(file));
+  }
+
+  put(hash: Hash, data: Uint8Array): void {
+    const file = this.file(hash);
+    if (this.fs.existsSync(file)) {
+      return;
+    }
+    this.fs.mkdirSync(this.path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    this.fs.writeFileSync(tmp, data);
+    this.fs.renameSync(tmp, file);
+  }
+
+  private file(hash: Hash): string {
+    const hex = hashToHex(hash);
+    return this.path.join(this.dir, hex.slice(0, 2), hex);
+  }
+}
+
+// ---------------------- Manifests ----------------------
+
+// ManifestChunk locates one chunk of a file; chunk i is leaf i of the tree.
+export interface ManifestChunk {
+  offset: number;
+  length: number;
+  hash: Hash; // leaf hash, the chunk's key in the store
+}
+
+// FileManifest lists a file's chunks in order, with the root of the tree
+// built over them.
+export interface FileManifest {
+  size: number;
+  root: Hash;
+  hashScheme: HashScheme;
+  hasher: string;
+  chunks: ManifestChunk[];
+}
+
+// ManifestBuild is the result of buildManifest. newChunks are the leaf
+// indices of chunks the store did not hold yet, in order.
+export interface ManifestBuild {
+  manifest: FileManifest;
+  newChunks: number[];
+}
+
+// buildManifest chunks source with cdcStream, writes the chunks the store
+// lacks, and rebuilds tree over their leaf hashes. The tree is left in
+// hash-only mode (see buildFromHashes): the chunk store holds the data.
+// Building an edited file again only adds the chunks around the edits.
+export async function buildManifest(
+  tree: TernaryMeshTree,
+  source: ByteSource,
+  store: ChunkStore,
+  opts: CdcOptions = defaultCdcOptions()
+): Promise<ManifestBuild> {
+  const hasher = tree.getHasher();
+  const scheme = tree.getHashScheme();
+  const chunks: ManifestChunk[] = [];
+  const newChunks: number[] = [];
+  let offset = 0;
+  for await (const chunk of cdcStream(source, opts)) {
+    const hash = hasher.hashLeaf(chunk, scheme);
+    if (!store.has(hash)) {
+      store.put(hash, chunk);
+      newChunks.push(chunks.length);
+    }
+    chunks.push({ offset, length: chunk.length, hash });
+    offset += chunk.length;
+  }
+
+  await tree.buildFromHashes(chunks.map(c => c.hash));
+  const [root] = tree.getRootHash();
+  return {
+    manifest: {
+      size: offset,
+      root: root!,
+      hashScheme: scheme,
+      hasher: hasher.name,
+      chunks,
+    },
+    newChunks,
+  };
+}
+
+// manifestLeafAt returns the leaf index of the chunk holding a byte offset.
+export function manifestLeafAt(manifest: FileManifest, offset: number): number {
+  if (!Number.isInteger(offset) || offset < 0 || offset >= manifest.size) {
+    throw new TMTError(`${ErrorMessages.INVALID_INDEX}: offset ${offset}`);
+  }
+  const { chunks } = manifest;
+  let lo = 0;
+  let hi = chunks.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (chunks[mid].offset <= offset) {
+      lo = mid;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return lo;
+}
@@ -0,0 +1,415 @@
+// Command-line interface over files: build a tree and snapshot it, then
+// issue and check proofs and compare snapshots. It is built as its own
+// entry, dist/cli, which bin/tmt.js runs; the library does not export it.
+// Node only.
+
+import {
+  builtinHasher,
+  Config,
+  decodeProof,
+  defaultConfig,
+  encodeProof,
+  ErrorMessages,
+  Hash,
+  hashToHex,
+  hexToBytes,
+  TernaryMeshTree,
+  TMTError,
+  VerificationProof,
+  verifyProofAgainstRoot,
+} from './index';
+import { chunkStream } from './stream';
+
+// CliIO receives the CLI's output, one line or JSON document per call.
+export interface CliIO {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // verification failed, or snapshots differ
+const EXIT_ERROR = 2; // bad arguments, unreadable input
+
+const DEFAULT_CHUNK_SIZE = 64 << 10;
+
+const USAGE = `usage: tmt <command> [options]
+
+commands:
+  build <file|dir>                   build a tree over the chunks of the input
+                                     (a directory's files in path order) and
+                                     write a snapshot
+  root <snapshot>                    print a snapshot's root
+  prove <snapshot> <index>           write a proof file for a leaf
+  verify <root> <index> <chunk> <proof>
+                                     check a chunk file against a root
+  diff <snapshotA> <snapshotB>       list the leaves that differ
+
+options:
+  --chunk-size N      build: bytes per leaf (default ${DEFAULT_CHUNK_SIZE})
+  --out FILE          build, prove: output file
+  --hash-only         build: keep leaf hashes but not data in the snapshot
+  --scheme S          build, verify: tagged (default) or legacy
+  --hasher H          build, verify: blake3 (default) or sha256
+  --json              print one JSON object
+  --help
+
+exit status: ${EXIT_OK} ok, ${EXIT_FAILED} verification failed or snapshots differ, ${EXIT_ERROR} error`;
+
+type Flags = { [name: string]: string | true };
+
+interface CommandResult {
+  code: number;
+  result: { [field: string]: unknown }; // for --json
+  text: string[];
+}
+
+interface Command {
+  args: number;
+  run(args: string[], flags: Flags, node: NodeModules): Promise<CommandResult>;
+}
+
+interface NodeModules {
+  fs: typeof import('fs');
+  path: typeof import('path');
+}
+
+const VALUE_FLAGS = ['chunk-size', 'out', 'scheme', 'hasher'];
+const BOOL_FLAGS = ['hash-only', 'json', 'help'];
+
+// runCli runs one command and resolves to its exit status; it does not
+// exit the process. Errors are reported on io, not thrown.
+export async function runCli(
+  argv: string[],
+  io: CliIO = consoleIO()
+): Promise<number> {
+  const json = argv.indexOf('--json') >= 0;
+  try {
+    const { positional, flags } = parseArgs(argv);
+    if (flags.help || positional.length === 0) {
+      io.out(USAGE);
+      return flags.help ? EXIT_OK : EXIT_ERROR;
+    }
+    const [name, ...args] = positional;
+    const command = COMMANDS[name];
+    if (!command) {
+      throw invalidArgument(`unknown command ${name}`);
+    }
+    if (args.length !== command.args) {
+      throw invalidArgument(`${name} takes ${command.args} arguments`);
+    }
+    const { code, result, text } = await command.run(
+      args,
+      flags,
+      nodeModules()
+    );
+    io.out(json ? JSON.stringify(result) : text.join('\n'));
+    return code;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (json) {
+      io.out(JSON.stringify({ error: message }));
+    } else {
+      io.err(`tmt: ${message}`);
+    }
+    return EXIT_ERROR;
+  }
+}
+
+const COMMANDS: { [name: string]: Command } = {
+  build: { args: 1, run: build },
+  root: { args: 1, run: root },
+  prove: { args: 2, run: prove },
+  verify: { args: 4, run: verify },
+  diff: { args: 2, run: diff },
+};
+
+// build chunks a file, or every file under a directory in path order, into
+// one tree. The leaf range of each file is reported, not stored.
+async function build(
+  [input]: string[],
+  flags: Flags,
+  node: NodeModules
+): Promise<CommandResult> {
+  const { fs, path } = node;
+  const chunkSize =
+    flags['chunk-size'] === undefined
+      ? DEFAULT_CHUNK_SIZE
+      : parseCount(flags['chunk-size'], 'chunk size');
+  const files = listFiles(input, node);
+  const ranges: { path: string; start: number; end: number }[] = [];
+  let count = 0;
+  async function* chunks(): AsyncGenerator<Uint8Array> {
+    for (const f of files) {
+      const start = count;
+      for await (const c of chunkStream(
+        fs.createReadStream(f.path),
+        chunkSize
+      )) {
+        count++;
+        yield c;
+      }
+      ranges.push({ path: f.name, start, end: count });
+    }
+  }
+
+  const cfg = treeConfig(flags);
+  if (flags['hash-only']) {
+    cfg.retainLeafData = false;
+  }
+  const tree = new TernaryMeshTree(cfg);
+  await tree.buildFromStream(chunks());
+  const out =
+    flagValue(flags, 'out') || `${path.basename(path.resolve(input))}.tmt.json`;
+  fs.writeFileSync(out, tree.serialize());
+
+  const rootHex = hashToHex(tree.getRootHash()[0]!);
+  return {
+    code: EXIT_OK,
+    result: {
+      root: rootHex,
+      leafCount: tree.getLeafCount(),
+      chunkSize,
+      snapshot: out,
+      files: ranges,
+    },
+    text: [
+      `root ${rootHex}`,
+      `leaves ${tree.getLeafCount()}`,
+      `snapshot ${out}`,
+      ...ranges.map(r => `file ${r.path} ${r.start}-${r.end}`),
+    ],
+  };
+}
+
+async function root(
+  [snapshot]: string[],
+  _: Flags,
+  node: NodeModules
+): Promise<CommandResult> {
+  const tree = loadSnapshot(snapshot, node);
+  const rootHex = hashToHex(tree.getRootHash()[0]!);
+  return {
+    code: EXIT_OK,
+    result: {
+      root: rootHex,
+      leafCount: tree.getLeafCount(),
+      hashScheme: tree.getHashScheme(),
+      hasher: tree.getHasher().name,
+    },
+    text: [
+      `root ${rootHex}`,
+      `leaves ${tree.getLeafCount()}`,
+      `scheme ${tree.getHashScheme()}`,
+      `hasher ${tree.getHasher().name}`,
+    ],
+  };
+}
+
+// prove writes the encodeProof form of a leaf's proof.
+async function prove(
+  [snapshot, indexArg]: string[],
+  flags: Flags,
+  node: NodeModules
+): Promise<CommandResult> {
+  const tree = loadSnapshot(snapshot, node);
+  const index = parseCount(indexArg, 'index', true);
+  const bytes = encodeProof(tree.generateProof(index));
+  const out = flagValue(flags, 'out') || `proof-${index}.bin`;
+  node.fs.writeFileSync(out, bytes);
+
+  const rootHex = hashToHex(tree.getRootHash()[0]!);
+  return {
+    code: EXIT_OK,
+    result: { index, root: rootHex, proof: out, bytes: bytes.length },
+    text: [`root ${rootHex}`, `proof ${out}`],
+  };
+}
+
+// verify checks a chunk against a root; a proof file that does not decode
+// fails verification, while a missing or unreadable one is an error.
+async function verify(
+  [rootArg, indexArg, chunkFile, proofFile]: string[],
+  flags: Flags,
+  { fs }: NodeModules
+): Promise<CommandResult> {
+  const { hashScheme, hasher } = treeConfig(flags);
+  const rootHash: Hash = hexToBytes(rootArg);
+  if (rootHash.length !== hasher.outputLength) {
+    throw new TMTError(
+      `${ErrorMessages.INVALID_HASH}: root is ${rootHash.length} bytes`
+    );
+  }
+  const index = parseCount(indexArg, 'index', true);
+  const chunk = new Uint8Array(fs.readFileSync(chunkFile));
+  const proofBytes = new Uint8Array(fs.readFileSync(proofFile));
+
+  let valid = false;
+  let error: Error | null = null;
+  try {
+    const proof: VerificationProof = decodeProof(
+      proofBytes,
+      hasher.outputLength
+    );
+    if (proof.leafIndex !== index) {
+      throw new TMTError(
+        `${ErrorMessages.INVALID_PROOF}: proof is for leaf ${proof.leafIndex}`
+      );
+    }
+    [valid, error] = verifyProofAgainstRoot(
+      proof,
+      chunk,
+      rootHash,
+      hashScheme,
+      hasher
+    );
+  } catch (err) {
+    error = err as Error;
+  }
+
+  return {
+    code: valid ? EXIT_OK : EXIT_FAILED,
+    result: {
+      valid,
+      index,
+      root: hashToHex(rootHash),
+      error: error ? error.message : null,
+    },
+    text: [valid ? 'valid' : `invalid${error ? `: ${error.message}` : ''}`],
+  };
+}
+
+// diff exits with EXIT_FAILED when the snapshots differ, like diff(1).
+async function diff(
+  [a, b]: string[],
+  _: Flags,
+  node: NodeModules
+): Promise<CommandResult> {
+  const left = loadSnapshot(a, node);
+  const right = loadSnapshot(b, node);
+  const { changed, leafCountDelta } = left.diff(right);
+  const same = changed.length === 0 && leafCountDelta === 0;
+  return {
+    code: same ? EXIT_OK : EXIT_FAILED,
+    result: {
+      same,
+      changed,
+      leafCountDelta,
+      rootA: hashToHex(left.getRootHash()[0]!),
+      rootB: hashToHex(right.getRootHash()[0]!),
+    },
+    text: same
+      ? ['same']
+      : [
+          `changed ${changed.join(' ')}`.trim(),
+          `leafCountDelta ${leafCountDelta}`,
+        ],
+  };
+}
+
+// loadSnapshot reads a serialize() snapshot and validates it.
+function loadSnapshot(file: string, { fs }: NodeModules): TernaryMeshTree {
+  const cfg = { ...defaultConfig(), enableMetrics: false };
+  return TernaryMeshTree.deserialize(fs.readFileSync(file, 'utf8'), cfg, {
+    strict: true,
+  });
+}
+
+// listFiles returns input itself, or the files under it sorted by their
+// '/'-separated path relative to it.
+function listFiles(
+  input: string,
+  { fs, path }: NodeModules
+): { path: string; name: string }[] {
+  if (!fs.statSync(input).isDirectory()) {
+    return [{ path: input, name: path.basename(input) }];
+  }
+  const out: { path: string; name: string }[] = [];
+  const walk = (dir: string, prefix: string) => {
+    for (const entry of fs.readdirSync(dir)) {
+      const full = path.join(dir, entry);
+      const name = prefix + entry;
+      if (fs.statSync(full).isDirectory()) {
+        walk(full, `${name}/`);
+      } else {
+        out.push({ path: full, name });
+      }
+    }
+  };
+  walk(input, '');
+  return out.sort((x, y) => (x.name < y.name ? -1 : x.name > y.name ? 1 : 0));
+}
+
+function treeConfig(flags: Flags): Config {
+  const scheme = flagValue(flags, 'scheme') || 'tagged';
+  if (scheme !== 'tagged' && scheme !== 'legacy') {
+    throw invalidArgument(`unknown hash scheme ${scheme}`);
+  }
+  const name = flagValue(flags, 'hasher') || 'blake3';
+  const hasher = builtinHasher(name);
+  if (!hasher) {
+    throw invalidArgument(`unknown hasher ${name}`);
+  }
+  return {
+    ...defaultConfig(),
+    hashScheme: scheme,
+    hasher,
+    enableMetrics: false,
+  };
+}
+
+function parseArgs(argv: string[]): { positional: string[]; flags: Flags } {
+  const positional: string[] = [];
+  const flags: Flags = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const name = eq < 0 ? arg.slice(2) : arg.slice(2, eq);
+    if (BOOL_FLAGS.indexOf(name) >= 0 && eq < 0) {
+      flags[name] = true;
+    } else if (VALUE_FLAGS.indexOf(name) >= 0) {
+      if (eq < 0 && i + 1 >= argv.length) {
+        throw invalidArgument(`--${name} needs a value`);
+      }
+      flags[name] = eq < 0 ? argv[++i] : arg.slice(eq + 1);
+    } else {
+      throw invalidArgument(`unknown option ${arg}`);
+    }
+  }
+  return { positional, flags };
+}
+
+function flagValue(flags: Flags, name: string): string | undefined {
+  const v = flags[name];
+  return typeof v === 'string' ? v : undefined;
+}
+
+// parseCount parses a decimal integer, positive unless zero is allowed.
+function parseCount(s: string | true, what: string, zero = false): number {
+  const n = typeof s === 'string' && /^\d+$/.test(s) ? Number(s) : NaN;
+  if (!Number.isSafeInteger(n) || (n === 0 && !zero)) {
+    throw invalidArgument(`bad ${what} ${s}`);
+  }
+  return n;
+}
+
+function invalidArgument(reason: string): TMTError {
+  return new TMTError(`${ErrorMessages.INVALID_ARGUMENT}: ${reason}`);
+}
+
+function nodeModules(): NodeModules {
+  if (typeof require !== 'function') {
+    throw new TMTError(`${ErrorMessages.UNSUPPORTED}: the CLI needs Node`);
+  }
+  return { fs: require('fs'), path: require('path') };
+}
+
+function consoleIO(): CliIO {
+  return {
+    out: text => console.log(text),
+    err: text => console.error(text),
+  };
+}
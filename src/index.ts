@@ -1,5 +1,5 @@
-// Package tmt provides a thread-safe Ternary Mesh Tree with BLAKE3 hashing,
-// compact proofs, optional hash caching, metrics, and JSON-based serialization.
+// Package tmt provides a concurrency-safe Ternary Mesh Tree with BLAKE3 hashing,
+// domain-separated leaf/node hashes, compact proofs, optional hash caching, metrics, and JSON-based serialization.
 //
 // Usage:
 //
@@ -8,8 +8,25 @@
 //	const [ok, err] = await tree.verify(0, new Uint8Array([1, 2, 3]));
 
 import { hash as blake3 } from 'blake3';
-
-export type Hash = Uint8Array; // 32 bytes
+import { RWLock } from './lock';
+import { formatPrometheus, Histogram, MetricLabels } from './metrics';
+import { sha256 } from './sha256';
+import { MemoryNodeStore, NodeStore, StoreMeta, StoreOp } from './store';
+import { ByteSource, toAsyncIterable } from './stream';
+import { HashPool, WorkerFactory } from './workers';
+
+export * from './cdc';
+export * from './map';
+export * from './metrics';
+export { sha256 } from './sha256';
+export * from './sparse';
+export * from './store';
+export * from './stream';
+export * from './sync';
+export * from './treehead';
+export * from './workers';
+
+export type Hash = Uint8Array; // hasher.outputLength bytes, 32 for built-ins
 export type NodeID = number;
 
 // ---------------------- Hash utilities ----------------------
@@ -26,12 +43,153 @@ export function combineHashes(hashes: Hash[]): Hash {
   return new Uint8Array(blake3(combined) as Hash);
 }
 
+// HashScheme selects how leaves and internal nodes are framed before hashing.
+// 'legacy' hashes raw bytes (the original format, kept for old snapshots);
+// 'tagged' prefixes leaves with 0x00 and internal nodes with 0x01 so a leaf
+// can never be confused with an internal node.
+export type HashScheme = 'legacy' | 'tagged';
+
+const LEAF_TAG = 0x00;
+const NODE_TAG = 0x01;
+
+// Hasher computes leaf and internal node hashes. The name is recorded in
+// snapshots so a tree is always reloaded with the function that built it.
+export interface Hasher {
+  name: string;
+  outputLength: number;
+  hashLeaf(data: Uint8Array, scheme: HashScheme): Hash;
+  hashNode(children: Hash[], scheme: HashScheme): Hash;
+}
+
+// digestHasher builds a Hasher from a plain digest function, framing leaves
+// and nodes as described for HashScheme.
+export function digestHasher(
+  name: string,
+  outputLength: number,
+  digest: (data: Uint8Array) => Uint8Array
+): Hasher {
+  // frame concatenates parts behind an optional tag byte (-1 for none)
+  const frame = (tag: number, parts: Uint8Array[]): Uint8Array => {
+    let off = tag < 0 ? 0 : 1;
+    let size = off;
+    for (const p of parts) {
+      size += p.length;
+    }
+    const out = new Uint8Array(size);
+    if (tag >= 0) {
+      out[0] = tag;
+    }
+    for (const p of parts) {
+      out.set(p, off);
+      off += p.length;
+    }
+    return out;
+  };
+  return {
+    name,
+    outputLength,
+    hashLeaf: (data, scheme) =>
+      digest(scheme === 'legacy' ? data : frame(LEAF_TAG, [data])),
+    hashNode: (children, scheme) =>
+      digest(frame(scheme === 'legacy' ? -1 : NODE_TAG, children)),
+  };
+}
+
+export const blake3Hasher: Hasher = digestHasher('blake3', 32, computeHash);
+export const sha256Hasher: Hasher = digestHasher('sha256', 32, sha256);
+
+const BUILTIN_HASHERS: Hasher[] = [blake3Hasher, sha256Hasher];
+
+// builtinHasher returns the shipped hasher with the given name, if any.
+export function builtinHasher(name: string): Hasher | undefined {
+  return BUILTIN_HASHERS.filter(h => h.name === name)[0];
+}
+
+// resolveHasher picks the hasher recorded in a snapshot: the configured one
+// when the names match, else a built-in.
+function resolveHasher(name: string, cfg: Config): Hasher {
+  const hasher = cfg.hasher.name === name ? cfg.hasher : builtinHasher(name);
+  if (!hasher) {
+    throw new TMTError(
+      `${ErrorMessages.SERIALIZATION}: unknown hasher ${name}`
+    );
+  }
+  return hasher;
+}
+
+export function hashLeaf(
+  data: Uint8Array,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): Hash {
+  return hasher.hashLeaf(data, scheme);
+}
+
+export function hashNode(
+  hashes: Hash[],
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): Hash {
+  return hasher.hashNode(hashes, scheme);
+}
+
+function isHashScheme(v: unknown): v is HashScheme {
+  return v === 'legacy' || v === 'tagged';
+}
+
 export function hashToHex(h: Hash): string {
   return Array.from(h)
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
 }
 
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) {
+    throw new TMTError(`${ErrorMessages.INVALID_ENCODING}: bad hex`);
+  }
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return out;
+}
+
+const BASE64_ALPHABET =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+export function bytesToBase64(data: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < data.length; i += 3) {
+    const n = (data[i] << 16) | ((data[i + 1] || 0) << 8) | (data[i + 2] || 0);
+    out += BASE64_ALPHABET[(n >> 18) & 63] + BASE64_ALPHABET[(n >> 12) & 63];
+    out += i + 1 < data.length ? BASE64_ALPHABET[(n >> 6) & 63] : '=';
+    out += i + 2 < data.length ? BASE64_ALPHABET[n & 63] : '=';
+  }
+  return out;
+}
+
+export function base64ToBytes(b64: string): Uint8Array {
+  if (!BASE64_PATTERN.test(b64)) {
+    throw new TMTError(`${ErrorMessages.INVALID_ENCODING}: bad base64`);
+  }
+  const pad = b64.endsWith('==') ? 2 : b64.endsWith('=') ? 1 : 0;
+  const out = new Uint8Array((b64.length / 4) * 3 - pad);
+  let o = 0;
+  for (let i = 0; i < b64.length; i += 4) {
+    let n = 0;
+    for (let j = 0; j < 4; j++) {
+      const c = b64[i + j];
+      n = (n << 6) | (c === '=' ? 0 : BASE64_ALPHABET.indexOf(c));
+    }
+    for (let j = 2; j >= 0 && o < out.length; j--) {
+      out[o++] = (n >> (j * 8)) & 0xff;
+    }
+  }
+  return out;
+}
+
 function hashesEqual(a: Hash, b: Hash): boolean {
   if (a.length !== b.length) return false;
   for (let i = 0; i < a.length; i++) {
@@ -50,7 +208,8 @@ export interface SerializableNode {
   parent: NodeID | null;
 }
 
-interface InternalNode {
+// InternalNode is a node as the tree and its NodeStore hold it.
+export interface InternalNode {
   hash: Hash;
   children: NodeID[];
   isLeaf: boolean;
@@ -60,8 +219,12 @@ interface InternalNode {
 interface SerializedBlob {
   nodes: SerializableNode[];
   leafData: number[][]; // Uint8Array as number array for JSON
+  leafIDs?: NodeID[]; // leaf slot -> node; absent in blobs written before append
   rootID: NodeID | null;
   leafCount: number;
+  hashScheme?: HashScheme; // absent in blobs written before schemes existed
+  retainLeafData?: boolean; // absent in blobs written before hash-only mode
+  hasher?: string; // absent in blobs written before pluggable hashers
 }
 
 // ---------------------- Verification proof ----------------------
@@ -71,10 +234,168 @@ export interface SiblingHash {
   hash: Hash;
 }
 
+// ProofStep describes one level of the path: the position of the current
+// node among its parent's children and how many children that parent has.
+export interface ProofStep {
+  pos: number;
+  childCount: number;
+}
+
 export interface VerificationProof {
   leafIndex: number;
   siblingHashes: SiblingHash[]; // (position, hash) pairs
   pathLength: number;
+  steps: ProofStep[]; // one per level, bottom-up
+}
+
+// ConsistencyProof shows that the tree of newSize leaves extends the tree of
+// oldSize leaves. hashes lists, in top-down left-to-right order of the new
+// tree, every node that lies entirely inside or entirely outside the first
+// oldSize leaves and whose parent straddles that boundary.
+export interface ConsistencyProof {
+  oldSize: number;
+  newSize: number;
+  hashes: Hash[];
+}
+
+// MultiProof proves several leaves at once. hashes holds, level by level
+// from the leaves up and left to right, each node the verifier cannot derive
+// from the proven leaves; shared ancestors are never repeated. Padding leaves
+// are implied by leafCount and not included.
+export interface MultiProof {
+  leafCount: number;
+  indices: number[]; // sorted, unique
+  hashes: Hash[];
+}
+
+// RangeProof proves the contiguous leaves start to end (exclusive). It is a
+// MultiProof over those leaves: hashes holds only the siblings along the two
+// edges of the range, and every node inside it is rebuilt from the leaves.
+export interface RangeProof {
+  leafCount: number;
+  start: number;
+  end: number;
+  hashes: Hash[];
+}
+
+// ---------------------- Versions ----------------------
+
+// VersionInfo identifies a committed version of the tree.
+export interface VersionInfo {
+  version: number;
+  root: Hash;
+}
+
+// TreeVersion is a committed version. undo holds, for every node changed
+// after this commit and before the next one, the node as it was at this
+// commit; older versions read through it, so unchanged nodes are shared.
+interface TreeVersion {
+  version: number;
+  rootID: NodeID;
+  root: Hash;
+  leafCount: number;
+  nodeCount: number;
+  undo: Map<NodeID, InternalNode>;
+}
+
+// StagedTree is a tree being built. It is kept apart from the live tree,
+// which readers go on seeing, until the build installs it. Node ids count
+// from 0, as in a fresh store.
+class StagedTree {
+  nodes = new Map<NodeID, InternalNode>();
+  data = new Map<number, Uint8Array>(); // by leaf slot
+  dataTotal = 0;
+  leafIDs: NodeID[] = []; // leaf slot (incl. padding) -> node id
+  leafCount = 0;
+  rootID: NodeID | null = null;
+  private retainLeafData: boolean;
+
+  constructor(retainLeafData: boolean) {
+    this.retainLeafData = retainLeafData;
+  }
+
+  hash(id: NodeID): Hash {
+    return this.nodes.get(id)!.hash;
+  }
+
+  // leaf adds a leaf in the next slot; data is dropped in hash-only mode.
+  leaf(hash: Hash, data: Uint8Array): NodeID {
+    const id = this.add({ hash, children: [], isLeaf: true, parent: null });
+    if (this.retainLeafData) {
+      this.data.set(this.leafIDs.length, new Uint8Array(data));
+      this.dataTotal = this.leafIDs.length + 1;
+    }
+    this.leafIDs.push(id);
+    return id;
+  }
+
+  parent(children: NodeID[], hash: Hash): NodeID {
+    const pid = this.add({
+      hash,
+      children: [...children],
+      isLeaf: false,
+      parent: null,
+    });
+    for (const cid of children) {
+      this.nodes.get(cid)!.parent = pid;
+    }
+    return pid;
+  }
+
+  private add(n: InternalNode): NodeID {
+    const id = this.nodes.size;
+    this.nodes.set(id, n);
+    return id;
+  }
+}
+
+// ---------------------- Transactions ----------------------
+
+// Transaction changes a tree inside TernaryMeshTree.transaction. Its methods
+// behave like the tree's own, but nothing is stored until the transaction
+// succeeds, and verify sees the changes made so far.
+export interface Transaction {
+  update(leafIndex: number, newData: Uint8Array): Promise<void>;
+  batchUpdate(updates: Map<number, Uint8Array>): Promise<void>;
+  append(data: Uint8Array): Promise<number>;
+  appendBatch(dataBlocks: Uint8Array[]): Promise<number>;
+  remove(leafIndex: number): Promise<void>;
+  removeBatch(indices: number[]): Promise<void>;
+  verify(leafIndex: number, data: Uint8Array): Promise<[boolean, Error | null]>;
+}
+
+// ---------------------- Diff ----------------------
+
+// TreeDiff lists the leaves whose hashes differ between two trees. changed
+// only covers indices below both leaf counts; leafCountDelta (other minus
+// this) tells how many leaves one tree has beyond the other.
+export interface TreeDiff {
+  changed: number[];
+  leafCountDelta: number;
+}
+
+// NodeRange selects positions start (inclusive) to end (exclusive) on one
+// level of the tree.
+export interface NodeRange {
+  start: number;
+  end: number;
+}
+
+// ---------------------- Validation ----------------------
+
+export interface ValidationIssue {
+  nodeID: NodeID | null; // null for tree-level problems
+  message: string;
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  checkedNodes: number;
+  issues: ValidationIssue[]; // the first inconsistencies found, in node order
+}
+
+export interface DeserializeOptions {
+  strict: boolean; // validate the loaded tree and throw if it is inconsistent
 }
 
 // ---------------------- Metrics ----------------------
@@ -86,8 +407,31 @@ export interface Metrics {
   totalVerifications: number;
   totalUpdates: number;
   memoryUsageBytes: number;
+  cacheHits: number; // leaf hashes served by getCachedHash's cache
+  cacheMisses: number;
+  cacheHitRate: number; // hits / lookups; 0 before the first lookup
+  updateLatencyP50MS: number; // estimated from the latency histogram
+  updateLatencyP99MS: number;
+}
+
+// ---------------------- Events ----------------------
+
+// TreeEvents maps each event name to the payload its listeners receive.
+// Durations are in milliseconds.
+export interface TreeEvents {
+  build: { leafCount: number; durationMS: number };
+  update: { leafIndex: number; durationMS: number };
+  batchUpdate: { count: number; durationMS: number };
+  rootChanged: { oldRoot: Hash | null; newRoot: Hash | null };
+  verifyFailed: { leafIndex: number; durationMS: number; error: Error | null };
 }
 
+export type TreeEventName = keyof TreeEvents;
+
+export type TreeListener<E extends TreeEventName> = (
+  event: TreeEvents[E]
+) => void;
+
 // ---------------------- Config ----------------------
 
 export interface Config {
@@ -95,6 +439,13 @@ export interface Config {
   maxCacheSize: number;
   enableMetrics: boolean;
   parallelThreshold: number; // chunked parallel pre-hash when leaves >= this
+  hashScheme: HashScheme;
+  hasher: Hasher;
+  retainLeafData: boolean; // false keeps leaf hashes only, not payloads
+  workers: number; // hash large builds on this many workers; 0 disables
+  workerBatchSize: number; // leaves or node groups per worker message
+  workerFactory?: WorkerFactory; // required outside Node (e.g. webWorkerFactory)
+  store?: NodeStore; // holds nodes and leaf data; a MemoryNodeStore by default
 }
 
 export function defaultConfig(): Config {
@@ -103,6 +454,11 @@ export function defaultConfig(): Config {
     maxCacheSize: 10_000,
     enableMetrics: true,
     parallelThreshold: 1000,
+    hashScheme: 'tagged',
+    hasher: blake3Hasher,
+    retainLeafData: true,
+    workers: 0,
+    workerBatchSize: 2048,
   };
 }
 
@@ -112,6 +468,26 @@ export class TMTError extends Error {
   constructor(message: string) {
     super(message);
     this.name = 'TMTError';
+    // keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// TMTValidationError is thrown by strict deserialization; report lists the
+// inconsistencies that were found.
+export class TMTValidationError extends TMTError {
+  report: ValidationReport;
+
+  constructor(report: ValidationReport) {
+    const first = report.issues
+      .slice(0, 3)
+      .map(i =>
+        i.nodeID === null ? i.message : `node ${i.nodeID}: ${i.message}`
+      )
+      .join('; ');
+    super(`${ErrorMessages.VALIDATION}: ${first}`);
+    this.name = 'TMTValidationError';
+    this.report = report;
   }
 }
 
@@ -122,19 +498,66 @@ export const ErrorMessages = {
   SERIALIZATION: 'serialization error',
   INVALID_PROOF: 'invalid proof',
   MISSING_PARENT: 'missing parent while walking upward',
+  MISSING_NODE: 'missing node',
+  SYNC: 'sync error',
+  INVALID_ENCODING: 'invalid encoding',
+  VALIDATION: 'tree validation failed',
+  INVALID_CHUNK_SIZE: 'invalid chunk size',
+  INVALID_HASH: 'invalid hash',
+  UNKNOWN_VERSION: 'unknown version',
+  WORKER: 'worker error',
+  KEY_NOT_FOUND: 'key not found',
+  KEY_PRESENT: 'key is present',
+  KEY_COLLISION: 'key collision',
+  INVALID_KEY: 'invalid key',
+  INVALID_DEPTH: 'invalid depth',
+  INVALID_ARGUMENT: 'invalid argument',
+  INVALID_SIGNATURE: 'invalid signature',
+  UNSUPPORTED: 'unsupported operation',
 } as const;
 
+// ---------------------- Binary snapshots ----------------------
+
+const SNAPSHOT_MAGIC = new Uint8Array([0x54, 0x4d, 0x54, 0x53]); // "TMTS"
+const SNAPSHOT_VERSION = 2; // 1 had no hasher name and implies blake3
+const SNAPSHOT_HEADER_LEN = 12;
+const SNAPSHOT_HAS_DATA = 0x01;
+const SNAPSHOT_SCHEMES: HashScheme[] = ['legacy', 'tagged'];
+
 // ---------------------- TernaryMeshTree ----------------------
 
 export class TernaryMeshTree {
-  private nodes: InternalNode[] = [];
-  private leafData: Uint8Array[] = [];
+  private store: NodeStore;
+  private dirtyNodes = new Map<NodeID, InternalNode>(); // not yet in store
+  private dirtyData = new Map<number, Uint8Array>();
+  private nodeTotal = 0;
+  private dataTotal = 0; // leaf data slots
+  private leafIDs: NodeID[] = []; // leaf slot (incl. padding) -> node id
   private rootID: NodeID | null = null;
   private leafCount = 0;
   private cfg: Config;
   private metrics: Metrics;
   private hashCache = new Map<string, Hash>();
-
+  private pool: HashPool | null = null;
+  private versions: TreeVersion[] = []; // ascending, oldest first
+  private nextVersion = 1;
+  private listeners: { [E in TreeEventName]: TreeListener<E>[] } = {
+    build: [],
+    update: [],
+    batchUpdate: [],
+    rootChanged: [],
+    verifyFailed: [],
+  };
+  private lastRoot: Hash | null = null; // root as of the last flush
+  private updateLatency = new Histogram(); // seconds, all mutations
+  private buildLatency = new Histogram();
+  private verifyLatency = new Histogram();
+  private lock = new RWLock();
+  private held: Array<() => void> | null = null; // events of a running transaction
+  private clearPending = false; // reset, but the store still holds the old tree
+
+  // A store that already holds a tree is resumed; its recorded scheme,
+  // hasher and hash-only mode override cfg.
   constructor(cfg: Config = defaultConfig()) {
     this.cfg = cfg;
     this.metrics = {
@@ -144,116 +567,258 @@ export class TernaryMeshTree {
       totalVerifications: 0,
       totalUpdates: 0,
       memoryUsageBytes: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      cacheHitRate: 0,
+      updateLatencyP50MS: 0,
+      updateLatencyP99MS: 0,
     };
+    this.store = cfg.store || new MemoryNodeStore();
+    const meta = this.store.getMeta();
+    if (meta) {
+      this.load(meta);
+    }
   }
 
   // ---------------------- Build ----------------------
 
+  // Builds are atomic like updates: if one fails, for instance because the
+  // source stream or a worker does, the previous tree is kept.
   async build(dataBlocks: Uint8Array[]): Promise<void> {
+    return this.atomic(() => this.buildInternal(dataBlocks));
+  }
+
+  private async buildInternal(dataBlocks: Uint8Array[]): Promise<void> {
     const start = performance.now();
 
     if (dataBlocks.length === 0) {
       throw new TMTError(ErrorMessages.EMPTY_DATA);
     }
 
-    // reset old state
-    this.nodes = [];
-    this.leafData = [];
-    this.leafCount = dataBlocks.length;
-    this.rootID = null;
-
-    // leaves
-    let current: NodeID[] = [];
-    for (let i = 0; i < dataBlocks.length; i++) {
-      const d = dataBlocks[i];
-      const h = await this.getCachedHash(d);
-      this.nodes.push({
-        hash: h,
-        children: [],
-        isLeaf: true,
-        parent: null,
-      });
-      this.leafData.push(new Uint8Array(d));
-      current.push(i);
-    }
-
-    // pad to divisible by 3
-    while (current.length % 3 !== 0) {
-      const h = computeHash(new Uint8Array(0));
-      this.nodes.push({ hash: h, children: [], isLeaf: true, parent: null });
-      this.leafData.push(new Uint8Array(0));
-      current.push(this.nodes.length - 1);
-    }
-
-    // helper to append a parent
-    const appendParent = (chunk: NodeID[], parentHash: Hash): NodeID => {
-      const p: InternalNode = {
-        hash: parentHash,
-        children: [...chunk],
-        isLeaf: false,
-        parent: null,
-      };
-      const pid = this.nodes.length;
-      this.nodes.push(p);
-      for (const cid of chunk) {
-        this.nodes[cid].parent = pid;
+    // leaves; the worker pool bypasses the hash cache
+    const leafPool = this.poolFor(dataBlocks.length);
+    let leafHashes: Hash[] = [];
+    if (leafPool) {
+      leafHashes = await this.hashOnPool(leafPool, dataBlocks, LEAF_TAG);
+    } else {
+      for (const d of dataBlocks) {
+        leafHashes.push(await this.getCachedHash(d));
       }
-      return pid;
-    };
+    }
+    const stage = this.stageLeaves(leafHashes, dataBlocks);
+    let current = stage.leafIDs;
 
     // bottom-up
     while (current.length > 1) {
       const next: NodeID[] = [];
+      const levelPool = this.poolFor(current.length);
 
-      // optional parallel pre-hash of child groups
-      if (this.cfg.parallelThreshold > 0 && current.length >= this.cfg.parallelThreshold) {
+      if (levelPool) {
+        const chunks = chunkBy(current, 3);
+        const groups = chunks.map(chunk =>
+          concatHashes(chunk.map(id => stage.hash(id)))
+        );
+        const hashes = await this.hashOnPool(levelPool, groups, NODE_TAG);
+        for (let i = 0; i < chunks.length; i++) {
+          next.push(stage.parent(chunks[i], hashes[i]));
+        }
+      } else if (
+        this.cfg.parallelThreshold > 0 &&
+        current.length >= this.cfg.parallelThreshold
+      ) {
         const chunks = chunkBy(current, 3);
         const promises = chunks.map(async (chunk, i) => {
           const childHashes: Hash[] = [];
           for (const id of chunk) {
-            childHashes.push(this.nodes[id].hash);
+            childHashes.push(stage.hash(id));
           }
           return {
             i,
             chunk,
-            hash: combineHashes(childHashes),
+            hash: this.nodeHash(childHashes),
           };
         });
 
         const precomp = await Promise.all(promises);
         precomp.sort((a, b) => a.i - b.i);
         for (const p of precomp) {
-          next.push(appendParent(p.chunk, p.hash));
+          next.push(stage.parent(p.chunk, p.hash));
         }
       } else {
-        // serial
-        for (let i = 0; i < current.length; i += 3) {
-          const chunk = current.slice(i, Math.min(i + 3, current.length));
-          const childHashes: Hash[] = [];
-          for (const id of chunk) {
-            childHashes.push(this.nodes[id].hash);
-          }
-          next.push(appendParent(chunk, combineHashes(childHashes)));
-        }
+        next.push(...this.hashLevel(stage, current));
       }
 
       current = next;
     }
 
-    const root = current[0];
-    this.rootID = root;
+    stage.rootID = current[0];
+    this.install(stage);
+    this.flush();
+    this.finishBuild(start);
+  }
 
-    if (this.cfg.enableMetrics) {
-      this.metrics.buildTimeMS = performance.now() - start;
-      this.metrics.memoryUsageBytes = this.estimateMemoryUsage();
+  // buildFromStream builds the same tree as build() while consuming blocks
+  // one at a time: parents are created as soon as a group of three closes,
+  // so only the open group of each level is pending. The new tree is staged
+  // in memory until the stream ends, and readers see the previous one until
+  // then; an empty or failing stream keeps it.
+  async buildFromStream(source: ByteSource): Promise<void> {
+    return this.atomic(() => this.buildFromStreamInternal(source));
+  }
+
+  private async buildFromStreamInternal(source: ByteSource): Promise<void> {
+    const start = performance.now();
+    const stage = new StagedTree(this.cfg.retainLeafData);
+
+    const frontier: NodeID[][] = [[]];
+    const counts: number[] = [0];
+    const push = (level: number, id: NodeID): void => {
+      if (frontier.length === level) {
+        frontier.push([]);
+        counts.push(0);
+      }
+      frontier[level].push(id);
+      counts[level]++;
+      if (frontier[level].length === 3) {
+        close(level);
+      }
+    };
+    const close = (level: number): void => {
+      const group = frontier[level];
+      frontier[level] = [];
+      const hashes = group.map(id => stage.hash(id));
+      push(level + 1, stage.parent(group, this.nodeHash(hashes)));
+    };
+    const pushLeaf = (hash: Hash, data: Uint8Array): void => {
+      push(0, stage.leaf(hash, data));
+    };
+
+    for await (const block of toAsyncIterable(source)) {
+      pushLeaf(await this.getCachedHash(block), block);
+      stage.leafCount++;
+    }
+    if (stage.leafCount === 0) {
+      throw new TMTError(ErrorMessages.EMPTY_DATA);
+    }
+
+    // pad the last leaf group, then close open groups up to the root
+    const empty = new Uint8Array(0);
+    while (frontier[0].length > 0) {
+      pushLeaf(this.leafHash(empty), empty);
+    }
+    for (let level = 1; stage.rootID === null; level++) {
+      if (level === frontier.length - 1 && counts[level] === 1) {
+        stage.rootID = frontier[level][0];
+      } else if (frontier[level].length > 0) {
+        close(level);
+      }
+    }
+    this.install(stage);
+    this.flush();
+    this.finishBuild(start);
+  }
+
+  // buildFromHashes builds from precomputed leaf hashes (hashLeaf output
+  // under the tree's scheme) for callers that keep the data elsewhere. The
+  // tree switches to hash-only mode: later updates and appends keep hashes
+  // but not payloads.
+  async buildFromHashes(leafHashes: Hash[]): Promise<void> {
+    return this.atomic(() => this.buildFromHashesInternal(leafHashes));
+  }
+
+  private async buildFromHashesInternal(leafHashes: Hash[]): Promise<void> {
+    const start = performance.now();
+
+    if (leafHashes.length === 0) {
+      throw new TMTError(ErrorMessages.EMPTY_DATA);
+    }
+    for (let i = 0; i < leafHashes.length; i++) {
+      if (leafHashes[i].length !== this.cfg.hasher.outputLength) {
+        throw new TMTError(`${ErrorMessages.INVALID_HASH}: leaf ${i}`);
+      }
+    }
+
+    this.cfg = { ...this.cfg, retainLeafData: false };
+    const hashes = leafHashes.map(h => new Uint8Array(h));
+    this.install(this.stageTree(hashes, []));
+    this.flush();
+    this.finishBuild(start);
+  }
+
+  // stageLeaves stages a padded leaf level holding the given hashes and
+  // data (ignored in hash-only mode).
+  private stageLeaves(hashes: Hash[], data: Uint8Array[]): StagedTree {
+    const stage = new StagedTree(this.cfg.retainLeafData);
+    stage.leafCount = hashes.length;
+    for (let i = 0; i < hashes.length; i++) {
+      stage.leaf(hashes[i], data[i]);
+    }
+
+    // pad to divisible by 3
+    const empty = new Uint8Array(0);
+    while (stage.leafIDs.length % 3 !== 0) {
+      stage.leaf(this.leafHash(empty), empty);
+    }
+    return stage;
+  }
+
+  // stageTree stages a tree over the given leaves, hashing serially. No
+  // leaves give a tree without a root.
+  private stageTree(hashes: Hash[], data: Uint8Array[]): StagedTree {
+    const stage = this.stageLeaves(hashes, data);
+    let current = stage.leafIDs;
+    while (current.length > 1) {
+      current = this.hashLevel(stage, current);
+    }
+    stage.rootID = current.length > 0 ? current[0] : null;
+    return stage;
+  }
+
+  // hashLevel groups one level of a staged tree into parents of up to
+  // three, serially.
+  private hashLevel(stage: StagedTree, current: NodeID[]): NodeID[] {
+    const next: NodeID[] = [];
+    for (let i = 0; i < current.length; i += 3) {
+      const chunk = current.slice(i, Math.min(i + 3, current.length));
+      const childHashes: Hash[] = [];
+      for (const id of chunk) {
+        childHashes.push(stage.hash(id));
+      }
+      next.push(stage.parent(chunk, this.nodeHash(childHashes)));
     }
+    return next;
   }
 
   // ---------------------- Verify ----------------------
 
   async verify(leafIndex: number, data: Uint8Array): Promise<[boolean, Error | null]> {
+    return this.lock.read(() => this.verifyInternal(leafIndex, data));
+  }
+
+  private async verifyInternal(
+    leafIndex: number,
+    data: Uint8Array
+  ): Promise<[boolean, Error | null]> {
     const start = performance.now();
+    const [ok, err] = this.verifyLeaf(leafIndex, data);
+    const durationMS = performance.now() - start;
+
+    // calls rejected with an error are not counted as verifications
+    if (this.cfg.enableMetrics && err === null) {
+      this.metrics.lastVerificationTimeNS = durationMS * 1_000_000;
+      this.metrics.totalVerifications++;
+      this.verifyLatency.observe(durationMS / 1000);
+    }
+    if (!ok) {
+      this.emit('verifyFailed', { leafIndex, durationMS, error: err });
+    }
+    return [ok, err];
+  }
 
+  private verifyLeaf(
+    leafIndex: number,
+    data: Uint8Array
+  ): [boolean, Error | null] {
     if (leafIndex < 0 || leafIndex >= this.leafCount) {
       return [false, new TMTError(`${ErrorMessages.INVALID_INDEX}: ${leafIndex}`)];
     }
@@ -261,24 +826,14 @@ export class TernaryMeshTree {
       return [false, new TMTError(ErrorMessages.UNINITIALIZED)];
     }
 
-    const exp = computeHash(data);
-    if (!hashesEqual(this.nodes[leafIndex].hash, exp)) {
-      if (this.cfg.enableMetrics) {
-        this.metrics.lastVerificationTimeNS = (performance.now() - start) * 1_000_000;
-        this.metrics.totalVerifications++;
-      }
+    const exp = this.leafHash(data);
+    if (!hashesEqual(this.node(this.leafIDs[leafIndex]).hash, exp)) {
       return [false, null];
     }
 
     try {
       const proof = this.generateProofInternal(leafIndex);
-      const ok = this.verifyProofInternal(proof, exp, this.rootID);
-
-      if (this.cfg.enableMetrics) {
-        this.metrics.lastVerificationTimeNS = (performance.now() - start) * 1_000_000;
-        this.metrics.totalVerifications++;
-      }
-      return [ok, null];
+      return [this.verifyProofInternal(proof, exp, this.rootID), null];
     } catch (err) {
       return [false, err as Error];
     }
@@ -286,25 +841,39 @@ export class TernaryMeshTree {
 
   // ---------------------- Update & BatchUpdate ----------------------
 
+  // update, batchUpdate, appendBatch and removeBatch are atomic: if one
+  // fails part-way, the tree is left as it was.
   async update(leafIndex: number, newData: Uint8Array): Promise<void> {
+    return this.atomic(() => this.updateInternal(leafIndex, newData));
+  }
+
+  private async updateInternal(
+    leafIndex: number,
+    newData: Uint8Array
+  ): Promise<void> {
     const start = performance.now();
 
     if (leafIndex < 0 || leafIndex >= this.leafCount) {
       throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${leafIndex}`);
     }
 
-    this.leafData[leafIndex] = new Uint8Array(newData);
-    this.nodes[leafIndex].hash = computeHash(newData);
+    this.storeLeafData(leafIndex, newData);
+    this.mutable(this.leafIDs[leafIndex]).hash = this.leafHash(newData);
 
-    this.updateAncestors(leafIndex);
+    this.recomputeAncestors([this.leafIDs[leafIndex]]);
+    this.flush();
 
-    if (this.cfg.enableMetrics) {
-      this.metrics.lastUpdateTimeNS = (performance.now() - start) * 1_000_000;
-      this.metrics.totalUpdates++;
-    }
+    const durationMS = this.recordUpdate(start, 1);
+    this.emit('update', { leafIndex, durationMS });
   }
 
   async batchUpdate(updates: Map<number, Uint8Array>): Promise<void> {
+    return this.atomic(() => this.batchUpdateInternal(updates));
+  }
+
+  private async batchUpdateInternal(
+    updates: Map<number, Uint8Array>
+  ): Promise<void> {
     const start = performance.now();
 
     // validate indices
@@ -316,112 +885,510 @@ export class TernaryMeshTree {
     }
 
     // apply updates
+    const touched: NodeID[] = [];
     for (const [idx, data] of updateEntries) {
-      this.leafData[idx] = new Uint8Array(data);
-      this.nodes[idx].hash = computeHash(data);
+      const id = this.leafIDs[idx];
+      this.storeLeafData(idx, data);
+      this.mutable(id).hash = this.leafHash(data);
+      touched.push(id);
     }
 
-    // collect affected ancestors
-    const affected = new Set<NodeID>();
-    for (const [idx] of updateEntries) {
-      this.collectAncestors(idx, affected);
+    this.recomputeAncestors(touched);
+    this.flush();
+
+    const durationMS = this.recordUpdate(start, updates.size);
+    this.emit('batchUpdate', { count: updates.size, durationMS });
+  }
+
+  // ---------------------- Append ----------------------
+
+  // append adds a leaf after the last one and returns its index. Padding
+  // slots are reused first; otherwise the right edge of each level grows,
+  // so the root always equals that of a fresh build over the same blocks.
+  async append(data: Uint8Array): Promise<number> {
+    return this.appendBatch([data]);
+  }
+
+  // appendBatch appends blocks in order and returns the index of the first.
+  async appendBatch(dataBlocks: Uint8Array[]): Promise<number> {
+    return this.atomic(() => this.appendBatchInternal(dataBlocks));
+  }
+
+  private async appendBatchInternal(dataBlocks: Uint8Array[]): Promise<number> {
+    const start = performance.now();
+    const first = this.leafCount;
+
+    if (this.rootID === null) {
+      await this.buildInternal(dataBlocks);
+      return first;
     }
 
-    // simple upward recompute until stable
-    const queue: NodeID[] = Array.from(affected);
-    const seen = new Set<NodeID>();
-    
-    while (queue.length > 0) {
-      const id = queue.shift()!;
-      if (seen.has(id)) {
-        continue;
-      }
-      this.recomputeNodeHash(id);
-      seen.add(id);
-      const parent = this.nodes[id].parent;
-      if (parent !== null) {
-        queue.push(parent);
-      }
+    const touched: NodeID[] = [];
+    for (const d of dataBlocks) {
+      const h = await this.getCachedHash(d);
+      touched.push(this.appendLeaf(h, d));
     }
+    this.recomputeAncestors(touched);
+    this.flush();
+    this.recordUpdate(start, 0);
+    return first;
+  }
 
-    if (this.cfg.enableMetrics) {
-      this.metrics.lastUpdateTimeNS = (performance.now() - start) * 1_000_000;
-      this.metrics.totalUpdates += updates.size;
+  // appendLeaf places a leaf in the next slot and links any new nodes on the
+  // right edge. Ancestor hashes are left stale for the caller to recompute.
+  private appendLeaf(hash: Hash, data: Uint8Array): NodeID {
+    const slot = this.leafCount;
+    this.leafCount++;
+
+    if (slot < this.leafIDs.length) {
+      const id = this.leafIDs[slot];
+      this.mutable(id).hash = hash;
+      this.storeLeafData(slot, data);
+      return id;
+    }
+
+    // all slots are used: open a new group of three (one leaf, two padding)
+    const group: NodeID[] = [];
+    for (let i = 0; i < 3; i++) {
+      const id = this.addNode({
+        hash: i === 0 ? hash : this.leafHash(new Uint8Array(0)),
+        children: [],
+        isLeaf: true,
+        parent: null,
+      });
+      this.storeLeafData(
+        this.leafIDs.length,
+        i === 0 ? data : new Uint8Array(0)
+      );
+      this.leafIDs.push(id);
+      group.push(id);
     }
+    this.attachRight(this.newParent(group), 1);
+    return group[0];
   }
 
-  // ---------------------- Proofs ----------------------
+  // attachRight makes id the rightmost node of the given level (leaves are
+  // level 0), adding a parent or a new root above it when needed.
+  private attachRight(id: NodeID, level: number): void {
+    const rootLevel = this.rootLevel();
+    if (level === rootLevel) {
+      this.rootID = this.newParent([this.rootID!, id]);
+      return;
+    }
 
-  generateProof(leafIndex: number): VerificationProof {
-    if (leafIndex < 0 || leafIndex >= this.leafCount) {
-      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${leafIndex}`);
+    let cur = this.rootID!;
+    for (let l = rootLevel; l > level + 1; l--) {
+      const children = this.node(cur).children;
+      cur = children[children.length - 1];
+    }
+
+    if (this.node(cur).children.length < 3) {
+      this.mutable(cur).children.push(id);
+      this.mutable(id).parent = cur;
+      return;
     }
-    return this.generateProofInternal(leafIndex);
+    this.attachRight(this.newParent([id]), level + 1);
   }
 
-  verifyProof(proof: VerificationProof, leafData: Uint8Array): [boolean, Error | null] {
-    if (this.rootID === null) {
-      return [false, new TMTError(ErrorMessages.UNINITIALIZED)];
+  // newParent links children under a new node. Without a hash, the caller
+  // must fill it in (e.g. via recomputeAncestors).
+  private newParent(
+    children: NodeID[],
+    hash: Hash = new Uint8Array(0)
+  ): NodeID {
+    const pid = this.addNode({
+      hash,
+      children: [...children],
+      isLeaf: false,
+      parent: null,
+    });
+    for (const cid of children) {
+      this.mutable(cid).parent = pid;
     }
-    const leafHash = computeHash(leafData);
-    return [this.verifyProofInternal(proof, leafHash, this.rootID), null];
+    return pid;
   }
 
-  private generateProofInternal(leafIndex: number): VerificationProof {
-    const sibs: SiblingHash[] = [];
-    let cur = leafIndex;
-    let path = 0;
+  // ---------------------- Remove & compact ----------------------
 
-    while (true) {
-      const n = this.nodes[cur];
-      if (n.parent === null) {
-        break;
-      }
-      const pid = n.parent;
-      const parent = this.nodes[pid];
+  // remove tombstones a leaf; see removeBatch.
+  async remove(leafIndex: number): Promise<void> {
+    return this.removeBatch([leafIndex]);
+  }
 
-      let pos = -1;
-      for (let i = 0; i < parent.children.length; i++) {
-        if (parent.children[i] === cur) {
-          pos = i;
-          break;
-        }
-      }
-      if (pos < 0) {
-        throw new TMTError(ErrorMessages.MISSING_PARENT);
-      }
+  // removeBatch replaces leaves with a tombstone hash and drops their data.
+  // Indices and leafCount do not change, so proofs for other leaves keep
+  // their indices; verify fails for removed leaves until they are updated
+  // again. The tombstone is hashNode([]), which no leaf or padding slot can
+  // produce, so it needs the tagged scheme. Call compact() to drop removed
+  // leaves for good.
+  async removeBatch(indices: number[]): Promise<void> {
+    return this.atomic(() => this.removeBatchInternal(indices));
+  }
 
-      for (let i = 0; i < parent.children.length; i++) {
-        if (i === pos) {
-          continue;
-        }
-        const cid = parent.children[i];
-        sibs.push({ pos: i, hash: this.nodes[cid].hash });
+  private async removeBatchInternal(indices: number[]): Promise<void> {
+    const start = performance.now();
+
+    if (this.cfg.hashScheme === 'legacy') {
+      throw new TMTError(
+        `${ErrorMessages.UNSUPPORTED}: removal needs the tagged hash scheme`
+      );
+    }
+    for (const idx of indices) {
+      if (!Number.isInteger(idx) || idx < 0 || idx >= this.leafCount) {
+        throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${idx}`);
       }
+    }
 
-      cur = pid;
-      path++;
+    const tombstone = this.tombstoneHash();
+    const touched: NodeID[] = [];
+    for (const idx of indices) {
+      const id = this.leafIDs[idx];
+      this.mutable(id).hash = tombstone;
+      this.storeLeafData(idx, new Uint8Array(0));
+      touched.push(id);
     }
+    this.recomputeAncestors(touched);
+    this.flush();
+    this.recordUpdate(start, indices.length);
+  }
 
-    return {
-      leafIndex,
-      siblingHashes: sibs,
-      pathLength: path,
-    };
+  // isRemoved reports whether a leaf holds a tombstone.
+  isRemoved(leafIndex: number): boolean {
+    if (leafIndex < 0 || leafIndex >= this.leafCount) {
+      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${leafIndex}`);
+    }
+    return this.isTombstone(this.node(this.leafIDs[leafIndex]).hash);
   }
 
-  private verifyProofInternal(proof: VerificationProof, leafHash: Hash, root: NodeID): boolean {
-    let curID = proof.leafIndex;
-    let curHash = leafHash;
-    let si = 0;
+  // compact rebuilds the tree from the leaves that are not removed, keeping
+  // their order, and returns the old index of each remaining leaf (so
+  // result[newIndex] === oldIndex). Leaf hashes are reused, so it also works
+  // in hash-only mode. Removing every leaf leaves an empty tree.
+  async compact(): Promise<number[]> {
+    return this.atomic(() => this.compactInternal());
+  }
+
+  private async compactInternal(): Promise<number[]> {
+    const start = performance.now();
+
+    const kept: number[] = [];
+    const hashes: Hash[] = [];
+    const data: Uint8Array[] = [];
+    for (let i = 0; i < this.leafCount; i++) {
+      const h = this.node(this.leafIDs[i]).hash;
+      if (!this.isTombstone(h)) {
+        kept.push(i);
+        hashes.push(h);
+        if (this.cfg.retainLeafData) {
+          data.push(this.leafDataAt(i));
+        }
+      }
+    }
+
+    this.install(this.stageTree(hashes, data));
+    this.flush();
+    this.finishBuild(start);
+    return kept;
+  }
+
+  // ---------------------- Versions ----------------------
+
+  // commit records the current root as a new version. Later changes copy
+  // only the nodes they touch, so versions share every unchanged subtree.
+  // Rebuilding the tree (build, buildFromHashes, buildFromStream, compact)
+  // starts a new history; version numbers keep counting up.
+  commit(): VersionInfo {
+    if (this.rootID === null) {
+      throw new TMTError(ErrorMessages.UNINITIALIZED);
+    }
+    if (this.held) {
+      throw new TMTError(
+        `${ErrorMessages.UNSUPPORTED}: commit during a transaction`
+      );
+    }
+    const rec: TreeVersion = {
+      version: this.nextVersion++,
+      rootID: this.rootID,
+      root: new Uint8Array(this.node(this.rootID).hash),
+      leafCount: this.leafCount,
+      nodeCount: this.nodeTotal,
+      undo: new Map(),
+    };
+    this.versions.push(rec);
+    return { version: rec.version, root: new Uint8Array(rec.root) };
+  }
+
+  // getVersions lists the versions still held, oldest first.
+  getVersions(): VersionInfo[] {
+    return this.versions.map(v => ({
+      version: v.version,
+      root: new Uint8Array(v.root),
+    }));
+  }
+
+  // prune drops every version older than beforeVersion and returns how
+  // many were dropped. Nodes only those versions needed are freed.
+  prune(beforeVersion: number): number {
+    const keep = this.versions.filter(v => v.version >= beforeVersion);
+    const dropped = this.versions.length - keep.length;
+    this.versions = keep;
+    return dropped;
+  }
+
+  // ---------------------- Transactions ----------------------
+
+  // transaction runs fn with sole use of the tree and applies the changes it
+  // makes through tx as one store batch. If fn throws, or the write fails,
+  // the tree is left as it was and the error is rethrown. Events are fired
+  // once the transaction succeeds and dropped if it fails, except
+  // verifyFailed, which fires at once. fn must change
+  // the tree only through tx: the tree's own async methods wait for the
+  // transaction to end, so awaiting them inside fn never returns.
+  // Synchronous reads such as getRootHash see the changes made so far.
+  async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    const tx: Transaction = {
+      update: (leafIndex, newData) => this.updateInternal(leafIndex, newData),
+      batchUpdate: updates => this.batchUpdateInternal(updates),
+      append: data => this.appendBatchInternal([data]),
+      appendBatch: dataBlocks => this.appendBatchInternal(dataBlocks),
+      remove: leafIndex => this.removeBatchInternal([leafIndex]),
+      removeBatch: indices => this.removeBatchInternal(indices),
+      verify: (leafIndex, data) => this.verifyInternal(leafIndex, data),
+    };
+    return this.atomic(() => fn(tx));
+  }
+
+  // atomic runs fn under the write lock as a transaction: flushes and
+  // events are held back until fn returns, and a failure restores the
+  // tree's fields and drops the unwritten changes, so the store, which has
+  // not seen them, still matches. A rebuild inside fn clears the store in
+  // the batch that writes its result.
+  private async atomic<T>(fn: () => Promise<T>): Promise<T> {
+    return this.lock.write(async () => {
+      const saved = {
+        nodeTotal: this.nodeTotal,
+        dataTotal: this.dataTotal,
+        leafIDs: this.leafIDs.slice(),
+        rootID: this.rootID,
+        leafCount: this.leafCount,
+        versions: this.versions,
+        cfg: this.cfg,
+      };
+      const events: Array<() => void> = [];
+      this.held = events;
+      let result: T;
+      try {
+        result = await fn();
+        this.writeDirty();
+      } catch (err) {
+        this.dirtyNodes.clear();
+        this.dirtyData.clear();
+        this.nodeTotal = saved.nodeTotal;
+        this.dataTotal = saved.dataTotal;
+        this.leafIDs = saved.leafIDs;
+        this.rootID = saved.rootID;
+        this.leafCount = saved.leafCount;
+        this.versions = saved.versions;
+        this.cfg = saved.cfg;
+        this.clearPending = false;
+        throw err;
+      } finally {
+        this.held = null;
+      }
+      this.noticeRoot();
+      events.forEach(fire => fire());
+      return result;
+    });
+  }
+
+  // ---------------------- Proofs ----------------------
+
+  // generateProof proves a leaf against the current root, or against the
+  // root of a committed version.
+  generateProof(leafIndex: number, version?: number): VerificationProof {
+    const rec = version === undefined ? undefined : this.findVersion(version);
+    const leafCount = rec ? rec.leafCount : this.leafCount;
+    if (leafIndex < 0 || leafIndex >= leafCount) {
+      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${leafIndex}`);
+    }
+    return this.generateProofInternal(leafIndex, rec);
+  }
+
+  verifyProof(proof: VerificationProof, leafData: Uint8Array): [boolean, Error | null] {
+    const start = performance.now();
+    let result: [boolean, Error | null];
+    if (this.rootID === null) {
+      result = [false, new TMTError(ErrorMessages.UNINITIALIZED)];
+    } else {
+      const leafHash = this.leafHash(leafData);
+      result = [this.verifyProofInternal(proof, leafHash, this.rootID), null];
+    }
+    if (!result[0]) {
+      this.emit('verifyFailed', {
+        leafIndex: proof.leafIndex,
+        durationMS: performance.now() - start,
+        error: result[1],
+      });
+    }
+    return result;
+  }
+
+  // generateConsistencyProof proves that the current tree extends the tree
+  // that held its first oldLeafCount leaves (as built or appended).
+  generateConsistencyProof(oldLeafCount: number): ConsistencyProof {
+    if (
+      !Number.isInteger(oldLeafCount) ||
+      oldLeafCount < 1 ||
+      oldLeafCount > this.leafCount
+    ) {
+      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${oldLeafCount}`);
+    }
+
+    const hashes: Hash[] = [];
+    if (oldLeafCount < this.leafCount) {
+      const visit = (id: NodeID, level: number, index: number): void => {
+        const width = Math.pow(3, level);
+        const lo = index * width;
+        if (lo + width <= oldLeafCount || lo >= oldLeafCount) {
+          hashes.push(this.node(id).hash);
+          return;
+        }
+        const children = this.node(id).children;
+        for (let c = 0; c < children.length; c++) {
+          visit(children[c], level - 1, index * 3 + c);
+        }
+      };
+      visit(this.rootID!, this.rootLevel(), 0);
+    }
+
+    return { oldSize: oldLeafCount, newSize: this.leafCount, hashes };
+  }
+
+  // generateMultiProof proves all given leaves in one proof. Indices may be
+  // given in any order; duplicates are dropped.
+  generateMultiProof(indices: number[]): MultiProof {
+    if (indices.length === 0) {
+      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: no indices`);
+    }
+    for (const idx of indices) {
+      if (!Number.isInteger(idx) || idx < 0 || idx >= this.leafCount) {
+        throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${idx}`);
+      }
+    }
+
+    const sorted = Array.from(new Set(indices)).sort((a, b) => a - b);
+    const sizes = levelSizes(this.leafCount);
+    const hashes: Hash[] = [];
+    let known = sorted;
+
+    for (let level = 0; level < sizes.length - 1; level++) {
+      const knownSet = new Set(known);
+      const parents = uniqueParents(known);
+      for (const p of parents) {
+        for (let c = 0; c < 3 && p * 3 + c < sizes[level]; c++) {
+          const ci = p * 3 + c;
+          if (knownSet.has(ci) || (level === 0 && ci >= this.leafCount)) {
+            continue;
+          }
+          hashes.push(this.node(this.nodeAt(level, ci)).hash);
+        }
+      }
+      known = parents;
+    }
+
+    return { leafCount: this.leafCount, indices: sorted, hashes };
+  }
+
+  // generateRangeProof proves leaves start to end (exclusive) with one
+  // proof; check it with verifyRangeProof.
+  generateRangeProof(start: number, end: number): RangeProof {
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start >= end ||
+      end > this.leafCount
+    ) {
+      throw new TMTError(
+        `${ErrorMessages.INVALID_INDEX}: range ${start}..${end}`
+      );
+    }
+    const indices: number[] = [];
+    for (let i = start; i < end; i++) {
+      indices.push(i);
+    }
+    const { leafCount, hashes } = this.generateMultiProof(indices);
+    return { leafCount, start, end, hashes };
+  }
+
+  // generateProofInternal walks up from a leaf; with rec it reads the nodes
+  // as they were at that version.
+  private generateProofInternal(
+    leafIndex: number,
+    rec?: TreeVersion
+  ): VerificationProof {
+    const node = (id: NodeID) =>
+      rec ? this.nodeAtVersion(id, rec) : this.node(id);
+    const sibs: SiblingHash[] = [];
+    const steps: ProofStep[] = [];
+    let cur = this.leafIDs[leafIndex];
+    let path = 0;
+
+    while (true) {
+      const n = node(cur);
+      if (n.parent === null) {
+        break;
+      }
+      const pid = n.parent;
+      const parent = node(pid);
+
+      let pos = -1;
+      for (let i = 0; i < parent.children.length; i++) {
+        if (parent.children[i] === cur) {
+          pos = i;
+          break;
+        }
+      }
+      if (pos < 0) {
+        throw new TMTError(ErrorMessages.MISSING_PARENT);
+      }
+
+      for (let i = 0; i < parent.children.length; i++) {
+        if (i === pos) {
+          continue;
+        }
+        const cid = parent.children[i];
+        sibs.push({ pos: i, hash: node(cid).hash });
+      }
+      steps.push({ pos, childCount: parent.children.length });
+
+      cur = pid;
+      path++;
+    }
+
+    return {
+      leafIndex,
+      siblingHashes: sibs,
+      pathLength: path,
+      steps,
+    };
+  }
+
+  private verifyProofInternal(proof: VerificationProof, leafHash: Hash, root: NodeID): boolean {
+    if (proof.leafIndex < 0 || proof.leafIndex >= this.leafCount) {
+      return false;
+    }
+    let curID = this.leafIDs[proof.leafIndex];
+    let curHash = leafHash;
+    let si = 0;
 
     for (let step = 0; step < proof.pathLength; step++) {
-      const n = this.nodes[curID];
+      const n = this.node(curID);
       if (n.parent === null) {
         return false;
       }
       const pid = n.parent;
-      const parent = this.nodes[pid];
+      const parent = this.node(pid);
 
       let pos = -1;
       for (let i = 0; i < parent.children.length; i++) {
@@ -450,19 +1417,119 @@ export class TernaryMeshTree {
         childHashes[sh.pos] = sh.hash;
       }
 
-      curHash = combineHashes(childHashes);
+      curHash = this.nodeHash(childHashes);
       curID = pid;
     }
 
-    return si === proof.siblingHashes.length && hashesEqual(curHash, this.nodes[root].hash);
+    return (
+      si === proof.siblingHashes.length &&
+      hashesEqual(curHash, this.node(root).hash)
+    );
+  }
+
+  // ---------------------- Diff ----------------------
+
+  // diff walks both trees from the top, skipping subtrees whose hashes
+  // match, and returns the leaves that differ. A subtree sits at the same
+  // level and position in both trees, so equal hashes mean equal leaves.
+  // Both trees must use the same scheme and hasher.
+  diff(other: TernaryMeshTree): TreeDiff {
+    if (this.rootID === null || other.rootID === null) {
+      throw new TMTError(ErrorMessages.UNINITIALIZED);
+    }
+    if (
+      this.cfg.hashScheme !== other.cfg.hashScheme ||
+      this.cfg.hasher.name !== other.cfg.hasher.name
+    ) {
+      throw new TMTError(
+        `${ErrorMessages.UNSUPPORTED}: trees use different hash schemes or hashers`
+      );
+    }
+
+    const common = Math.min(this.leafCount, other.leafCount);
+    const top = Math.min(this.rootLevel(), other.rootLevel());
+    const changed: number[] = [];
+    const stack = [
+      { a: this.nodeAt(top, 0), b: other.nodeAt(top, 0), level: top, index: 0 },
+    ];
+    while (stack.length > 0) {
+      const { a, b, level, index } = stack.pop()!;
+      const na = this.node(a);
+      const nb = other.node(b);
+      if (
+        index * Math.pow(3, level) >= common ||
+        hashesEqual(na.hash, nb.hash)
+      ) {
+        continue;
+      }
+      if (level === 0) {
+        changed.push(index);
+        continue;
+      }
+      const n = Math.min(na.children.length, nb.children.length);
+      for (let c = 0; c < n; c++) {
+        stack.push({
+          a: na.children[c],
+          b: nb.children[c],
+          level: level - 1,
+          index: index * 3 + c,
+        });
+      }
+    }
+
+    changed.sort((x, y) => x - y);
+    return { changed, leafCountDelta: other.leafCount - this.leafCount };
+  }
+
+  // getNodeHashes returns the hashes on one level (0 holds the leaves,
+  // padding included) at the positions in range; see levelSizes for the
+  // size of each level. It is the primitive behind serveSync.
+  getNodeHashes(level: number, range: NodeRange): Hash[] {
+    if (this.rootID === null) {
+      throw new TMTError(ErrorMessages.UNINITIALIZED);
+    }
+    const sizes = levelSizes(this.leafCount);
+    if (!Number.isInteger(level) || level < 0 || level >= sizes.length) {
+      throw new TMTError(`${ErrorMessages.INVALID_INDEX}: level ${level}`);
+    }
+    const { start, end } = range;
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      start < 0 ||
+      start > end ||
+      end > sizes[level]
+    ) {
+      throw new TMTError(
+        `${ErrorMessages.INVALID_INDEX}: range ${start}..${end} on level ${level}`
+      );
+    }
+
+    const hashes: Hash[] = [];
+    const visit = (id: NodeID, l: number, index: number): void => {
+      const width = Math.pow(3, l - level);
+      if ((index + 1) * width <= start || index * width >= end) {
+        return;
+      }
+      const n = this.node(id);
+      if (l === level) {
+        hashes.push(n.hash);
+        return;
+      }
+      for (let c = 0; c < n.children.length; c++) {
+        visit(n.children[c], l - 1, index * 3 + c);
+      }
+    };
+    visit(this.rootID, sizes.length - 1, 0);
+    return hashes;
   }
 
   // ---------------------- Serialization ----------------------
 
   serialize(): string {
     const snodes: SerializableNode[] = [];
-    for (let id = 0; id < this.nodes.length; id++) {
-      const n = this.nodes[id];
+    for (let id = 0; id < this.nodeTotal; id++) {
+      const n = this.node(id);
       snodes.push({
         id,
         hash: Array.from(n.hash),
@@ -473,15 +1540,19 @@ export class TernaryMeshTree {
     }
 
     const cpLeaves: number[][] = [];
-    for (const leaf of this.leafData) {
-      cpLeaves.push(Array.from(leaf));
+    for (let slot = 0; slot < this.dataTotal; slot++) {
+      cpLeaves.push(Array.from(this.leafDataAt(slot)));
     }
 
     const blob: SerializedBlob = {
       nodes: snodes,
       leafData: cpLeaves,
+      leafIDs: [...this.leafIDs],
       rootID: this.rootID,
       leafCount: this.leafCount,
+      hashScheme: this.cfg.hashScheme,
+      hasher: this.cfg.hasher.name,
+      retainLeafData: this.cfg.retainLeafData,
     };
 
     try {
@@ -491,38 +1562,443 @@ export class TernaryMeshTree {
     }
   }
 
-  static deserialize(data: string, cfg: Config = defaultConfig()): TernaryMeshTree {
+  static deserialize(
+    data: string,
+    cfg: Config = defaultConfig(),
+    opts: DeserializeOptions = { strict: false }
+  ): TernaryMeshTree {
     let blob: SerializedBlob;
     try {
       blob = JSON.parse(data);
     } catch (err) {
       throw new TMTError(`${ErrorMessages.SERIALIZATION}: ${err}`);
     }
+    // JSON.parse accepts any value, so check the shape before reading fields
+    if (
+      typeof blob !== 'object' ||
+      blob === null ||
+      Array.isArray(blob) ||
+      !Array.isArray(blob.nodes) ||
+      !Array.isArray(blob.leafData) ||
+      (blob.leafIDs !== undefined && !Array.isArray(blob.leafIDs))
+    ) {
+      throw new TMTError(`${ErrorMessages.SERIALIZATION}: not a tree blob`);
+    }
 
-    const nodes: InternalNode[] = [];
-    for (const n of blob.nodes) {
-      nodes.push({
-        hash: new Uint8Array(n.hash),
-        children: [...n.children],
-        isLeaf: n.isLeaf,
-        parent: n.parent,
-      });
+    // blobs without a scheme predate domain separation
+    const hashScheme =
+      blob.hashScheme === undefined ? 'legacy' : blob.hashScheme;
+    if (!isHashScheme(hashScheme)) {
+      throw new TMTError(
+        `${ErrorMessages.SERIALIZATION}: unknown hash scheme ${hashScheme}`
+      );
     }
 
+    const nodes: InternalNode[] = [];
     const leafData: Uint8Array[] = [];
-    for (const leaf of blob.leafData) {
-      leafData.push(new Uint8Array(leaf));
+    try {
+      for (const n of blob.nodes) {
+        nodes.push({
+          hash: new Uint8Array(n.hash),
+          children: [...n.children],
+          isLeaf: n.isLeaf,
+          parent: n.parent,
+        });
+      }
+      for (const leaf of blob.leafData) {
+        leafData.push(new Uint8Array(leaf));
+      }
+    } catch (err) {
+      throw new TMTError(`${ErrorMessages.SERIALIZATION}: ${err}`);
+    }
+
+    const hasher = resolveHasher(blob.hasher || 'blake3', cfg);
+    const retainLeafData = blob.retainLeafData !== false;
+    const tree = new TernaryMeshTree({
+      ...cfg,
+      hashScheme,
+      hasher,
+      retainLeafData,
+    });
+    const stage = new StagedTree(retainLeafData);
+    nodes.forEach((n, id) => stage.nodes.set(id, n));
+    leafData.forEach((d, slot) => stage.data.set(slot, d));
+    stage.dataTotal = leafData.length;
+    // older blobs lay the leaves out first, in slot order
+    stage.leafIDs = blob.leafIDs
+      ? [...blob.leafIDs]
+      : nodes.map((_, id) => id).filter(id => nodes[id].isLeaf);
+    stage.rootID = blob.rootID;
+    stage.leafCount = blob.leafCount;
+    tree.install(stage);
+    tree.flush();
+
+    if (opts.strict) {
+      const report = tree.validate();
+      if (!report.valid) {
+        throw new TMTValidationError(report);
+      }
+    }
+    return tree;
+  }
+
+  // serializeBinary writes a compact snapshot holding only the leaves; the
+  // internal nodes are rebuilt on load. Layout (integers big-endian):
+  //
+  //	4 bytes magic "TMTS", u8 version, u8 hash scheme, u8 hash length,
+  //	u8 flags (bit 0: leaf data present), u32 leaf count, u8 hasher name
+  //	length + ASCII name, root hash, leaf hashes, then per leaf u32
+  //	length + data when flagged, and a trailing BLAKE3 checksum of
+  //	everything before it.
+  serializeBinary(): Uint8Array {
+    const [root, ok] = this.getRootHash();
+    if (!ok) {
+      throw new TMTError(
+        `${ErrorMessages.SERIALIZATION}: ${ErrorMessages.UNINITIALIZED}`
+      );
+    }
+    const hashLen = root!.length;
+    const name = this.cfg.hasher.name;
+    if (name.length > 255 || !/^[\x20-\x7e]*$/.test(name)) {
+      throw new TMTError(
+        `${ErrorMessages.SERIALIZATION}: hasher name must be short ASCII`
+      );
+    }
+
+    const withData = this.cfg.retainLeafData;
+    let size = SNAPSHOT_HEADER_LEN + 1 + name.length;
+    size += hashLen * (this.leafCount + 1);
+    for (let i = 0; withData && i < this.leafCount; i++) {
+      size += 4 + this.leafDataAt(i).length;
+    }
+
+    const out = new Uint8Array(size + 32);
+    const view = new DataView(out.buffer);
+    out.set(SNAPSHOT_MAGIC, 0);
+    view.setUint8(4, SNAPSHOT_VERSION);
+    view.setUint8(5, SNAPSHOT_SCHEMES.indexOf(this.cfg.hashScheme));
+    view.setUint8(6, hashLen);
+    view.setUint8(7, withData ? SNAPSHOT_HAS_DATA : 0);
+    view.setUint32(8, this.leafCount);
+
+    let off = SNAPSHOT_HEADER_LEN;
+    out[off++] = name.length;
+    for (let i = 0; i < name.length; i++) {
+      out[off++] = name.charCodeAt(i);
+    }
+    out.set(root!, off);
+    off += hashLen;
+    for (let i = 0; i < this.leafCount; i++) {
+      out.set(this.node(this.leafIDs[i]).hash, off);
+      off += hashLen;
+    }
+    for (let i = 0; withData && i < this.leafCount; i++) {
+      const d = this.leafDataAt(i);
+      view.setUint32(off, d.length);
+      out.set(d, off + 4);
+      off += 4 + d.length;
+    }
+
+    out.set(computeHash(out.subarray(0, size)), size);
+    return out;
+  }
+
+  static deserializeBinary(
+    bytes: Uint8Array,
+    cfg: Config = defaultConfig(),
+    opts: DeserializeOptions = { strict: false }
+  ): TernaryMeshTree {
+    const fail = (reason: string) =>
+      new TMTError(`${ErrorMessages.SERIALIZATION}: ${reason}`);
+
+    if (bytes.length < SNAPSHOT_HEADER_LEN + 32) {
+      throw fail('truncated snapshot');
+    }
+    for (let i = 0; i < SNAPSHOT_MAGIC.length; i++) {
+      if (bytes[i] !== SNAPSHOT_MAGIC[i]) {
+        throw fail('not a snapshot');
+      }
+    }
+
+    const size = bytes.length - 32;
+    const checksum = computeHash(bytes.subarray(0, size));
+    if (!hashesEqual(checksum, bytes.subarray(size))) {
+      throw fail('checksum mismatch');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, size);
+    const version = view.getUint8(4);
+    if (version < 1 || version > SNAPSHOT_VERSION) {
+      throw fail(`unsupported snapshot version ${version}`);
+    }
+    const hashScheme = SNAPSHOT_SCHEMES[view.getUint8(5)];
+    if (!hashScheme) {
+      throw fail(`unknown hash scheme ${view.getUint8(5)}`);
+    }
+    const hashLen = view.getUint8(6);
+    const flags = view.getUint8(7);
+    const leafCount = view.getUint32(8);
+    if (leafCount === 0) {
+      throw fail('snapshot holds no leaves');
+    }
+    const retainLeafData = (flags & SNAPSHOT_HAS_DATA) !== 0;
+
+    let off = SNAPSHOT_HEADER_LEN;
+    const take = (n: number): Uint8Array => {
+      if (off + n > size) {
+        throw fail('truncated snapshot');
+      }
+      const part = bytes.slice(off, off + n);
+      off += n;
+      return part;
+    };
+
+    let name = 'blake3';
+    if (version >= 2) {
+      name = String.fromCharCode.apply(null, Array.from(take(take(1)[0])));
+    }
+    const hasher = resolveHasher(name, cfg);
+    if (hashLen !== hasher.outputLength) {
+      throw fail(`hash length ${hashLen} does not match hasher ${name}`);
     }
 
-    const tree = new TernaryMeshTree(cfg);
-    (tree as any).nodes = nodes;
-    (tree as any).leafData = leafData;
-    (tree as any).rootID = blob.rootID;
-    (tree as any).leafCount = blob.leafCount;
+    const root = take(hashLen);
+    const leafHashes: Hash[] = [];
+    for (let i = 0; i < leafCount; i++) {
+      leafHashes.push(take(hashLen));
+    }
+    const leafData: Uint8Array[] = [];
+    for (let i = 0; retainLeafData && i < leafCount; i++) {
+      const len = new DataView(take(4).buffer).getUint32(0);
+      leafData.push(take(len));
+    }
+    if (off !== size) {
+      throw fail('trailing bytes');
+    }
 
+    const tree = new TernaryMeshTree({
+      ...cfg,
+      hashScheme,
+      hasher,
+      retainLeafData,
+    });
+    tree.install(tree.stageTree(leafHashes, leafData));
+    tree.flush();
+
+    if (!hashesEqual(tree.node(tree.rootID!).hash, root)) {
+      throw fail('root hash mismatch');
+    }
+    if (opts.strict) {
+      const report = tree.validate();
+      if (!report.valid) {
+        throw new TMTValidationError(report);
+      }
+    }
     return tree;
   }
 
+  // ---------------------- Validation ----------------------
+
+  // validate recomputes every hash and checks the structure: ids in range,
+  // parent/child links that agree, one root, leaves at a single depth and a
+  // leaf map that covers them. It stops after maxIssues problems.
+  validate(maxIssues = 10): ValidationReport {
+    const issues: ValidationIssue[] = [];
+    const report = (): ValidationReport => ({
+      valid: issues.length === 0,
+      checkedNodes: this.nodeTotal,
+      issues,
+    });
+    const add = (nodeID: NodeID | null, message: string): boolean => {
+      issues.push({ nodeID, message });
+      return issues.length >= maxIssues;
+    };
+    const inRange = (id: NodeID): boolean =>
+      Number.isInteger(id) && id >= 0 && id < this.nodeTotal;
+
+    if (this.rootID === null) {
+      if (this.nodeTotal > 0 || this.leafCount !== 0) {
+        add(null, 'nodes present but root is missing');
+      }
+      return report();
+    }
+    if (!inRange(this.rootID)) {
+      add(null, `root ${this.rootID} out of range`);
+      return report();
+    }
+    if (this.node(this.rootID).parent !== null) {
+      add(this.rootID, 'root has a parent');
+    }
+
+    // leaf map and leaf data
+    const slotOf = new Map<NodeID, number>();
+    if (!Number.isInteger(this.leafCount) || this.leafCount < 1) {
+      add(null, `bad leaf count ${this.leafCount}`);
+    }
+    const slots = this.leafIDs.length;
+    if (slots < this.leafCount || slots % 3 !== 0) {
+      add(null, `leaf map has ${slots} slots for ${this.leafCount} leaves`);
+    }
+    const dataSlots = this.cfg.retainLeafData ? slots : 0;
+    if (this.dataTotal !== dataSlots) {
+      add(
+        null,
+        `leaf data has ${this.dataTotal} entries, expected ${dataSlots}`
+      );
+    }
+    for (let slot = 0; slot < this.leafIDs.length; slot++) {
+      const id = this.leafIDs[slot];
+      if (!inRange(id) || !this.node(id).isLeaf || slotOf.has(id)) {
+        if (add(id, `leaf slot ${slot} does not map to a distinct leaf`)) {
+          return report();
+        }
+        continue;
+      }
+      slotOf.set(id, slot);
+    }
+    if (issues.length > 0) {
+      return report();
+    }
+
+    // structure, walked from the root
+    const depthOf = new Map<NodeID, number>();
+    const stack: NodeID[] = [this.rootID];
+    depthOf.set(this.rootID, 0);
+    let leafDepth = -1;
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const n = this.node(id);
+      const depth = depthOf.get(id)!;
+
+      if (n.isLeaf) {
+        if (n.children.length > 0 && add(id, 'leaf has children')) {
+          return report();
+        }
+        if (leafDepth < 0) {
+          leafDepth = depth;
+        } else if (
+          depth !== leafDepth &&
+          add(id, `leaf at depth ${depth}, expected ${leafDepth}`)
+        ) {
+          return report();
+        }
+        if (!slotOf.has(id) && add(id, 'leaf is not in the leaf map')) {
+          return report();
+        }
+        continue;
+      }
+
+      if (n.children.length < 1 || n.children.length > 3) {
+        if (add(id, `internal node has ${n.children.length} children`)) {
+          return report();
+        }
+        continue;
+      }
+      for (const cid of n.children) {
+        if (!inRange(cid) || depthOf.has(cid)) {
+          if (add(id, `bad or shared child ${cid}`)) {
+            return report();
+          }
+          continue;
+        }
+        if (
+          this.node(cid).parent !== id &&
+          add(cid, `parent is ${this.node(cid).parent}, expected ${id}`)
+        ) {
+          return report();
+        }
+        depthOf.set(cid, depth + 1);
+        stack.push(cid);
+      }
+    }
+    const unreachable = this.nodeTotal - depthOf.size;
+    if (unreachable > 0) {
+      add(null, `${unreachable} nodes are not reachable from the root`);
+    }
+    if (issues.length > 0) {
+      return report();
+    }
+
+    // hashes, in id order
+    const empty = new Uint8Array(0);
+    for (let id = 0; id < this.nodeTotal; id++) {
+      const n = this.node(id);
+      let expected: Hash;
+      if (n.isLeaf) {
+        const slot = slotOf.get(id)!;
+        if (slot < this.leafCount && !this.cfg.retainLeafData) {
+          // without the payload only the hash length can be checked
+          const wrongLength = n.hash.length !== this.cfg.hasher.outputLength;
+          if (wrongLength && add(id, 'leaf hash has wrong length')) {
+            return report();
+          }
+          continue;
+        }
+        const data = slot < this.leafCount ? this.leafDataAt(slot) : empty;
+        if (slot < this.leafCount && this.isTombstone(n.hash)) {
+          if (data.length > 0 && add(id, 'removed leaf still has data')) {
+            return report();
+          }
+          continue;
+        }
+        expected = this.leafHash(data);
+      } else {
+        const childHashes = n.children.map(cid => this.node(cid).hash);
+        if (childHashes.some(h => h.length !== this.cfg.hasher.outputLength)) {
+          continue; // reported on the child itself
+        }
+        expected = this.nodeHash(childHashes);
+      }
+      const message = n.isLeaf
+        ? 'leaf hash does not match its data'
+        : 'hash does not match its children';
+      if (!hashesEqual(n.hash, expected) && add(id, message)) {
+        return report();
+      }
+    }
+
+    return report();
+  }
+
+  // ---------------------- Events ----------------------
+
+  // on subscribes listener to an event and returns a function that
+  // unsubscribes it. Listeners run synchronously once the change is stored,
+  // whether or not metrics are enabled; an exception thrown by a listener
+  // propagates to the caller of the method that fired the event.
+  on<E extends TreeEventName>(event: E, listener: TreeListener<E>): () => void {
+    this.listenersOf(event).push(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends TreeEventName>(event: E, listener: TreeListener<E>): void {
+    const list = this.listenersOf(event);
+    const i = list.indexOf(listener);
+    if (i >= 0) {
+      list.splice(i, 1);
+    }
+  }
+
+  private emit<E extends TreeEventName>(
+    event: E,
+    payload: TreeEvents[E]
+  ): void {
+    // a failed verify changes nothing, so it is not held back
+    if (this.held && event !== 'verifyFailed') {
+      this.held.push(() => this.emit(event, payload));
+      return;
+    }
+    // a copy, so listeners may unsubscribe while being called
+    const list = this.listenersOf(event).slice();
+    for (const l of list) {
+      l(payload);
+    }
+  }
+
+  private listenersOf<E extends TreeEventName>(event: E): TreeListener<E>[] {
+    return this.listeners[event] as TreeListener<E>[];
+  }
+
   // ---------------------- Getters ----------------------
 
   getMetrics(): Metrics {
@@ -534,16 +2010,100 @@ export class TernaryMeshTree {
         totalVerifications: 0,
         totalUpdates: 0,
         memoryUsageBytes: 0,
+        cacheHits: 0,
+        cacheMisses: 0,
+        cacheHitRate: 0,
+        updateLatencyP50MS: 0,
+        updateLatencyP99MS: 0,
       };
     }
-    return { ...this.metrics };
+    const { cacheHits, cacheMisses } = this.metrics;
+    const lookups = cacheHits + cacheMisses;
+    return {
+      ...this.metrics,
+      cacheHitRate: lookups > 0 ? cacheHits / lookups : 0,
+      updateLatencyP50MS: this.updateLatency.quantile(0.5) * 1000,
+      updateLatencyP99MS: this.updateLatency.quantile(0.99) * 1000,
+    };
   }
 
-  getRootHash(): [Hash | null, boolean] {
+  // exportPrometheus renders the metrics in the Prometheus text format,
+  // adding labels (e.g. a tree name) to every sample. Latencies are in
+  // seconds. Everything reads zero while metrics are disabled.
+  exportPrometheus(labels: MetricLabels = {}): string {
+    const m = this.getMetrics();
+    return formatPrometheus(
+      [
+        {
+          name: 'tmt_update_duration_seconds',
+          help: 'Latency of updates, appends and removals.',
+          type: 'histogram',
+          histogram: this.updateLatency,
+        },
+        {
+          name: 'tmt_build_duration_seconds',
+          help: 'Latency of builds and compactions.',
+          type: 'histogram',
+          histogram: this.buildLatency,
+        },
+        {
+          name: 'tmt_verify_duration_seconds',
+          help: 'Latency of verify calls.',
+          type: 'histogram',
+          histogram: this.verifyLatency,
+        },
+        {
+          name: 'tmt_updates_total',
+          help: 'Leaves updated or removed.',
+          type: 'counter',
+          value: m.totalUpdates,
+        },
+        {
+          name: 'tmt_verifications_total',
+          help: 'Completed verify calls.',
+          type: 'counter',
+          value: m.totalVerifications,
+        },
+        {
+          name: 'tmt_cache_hits_total',
+          help: 'Leaf hashes served from the hash cache.',
+          type: 'counter',
+          value: m.cacheHits,
+        },
+        {
+          name: 'tmt_cache_misses_total',
+          help: 'Leaf hashes computed on a hash cache miss.',
+          type: 'counter',
+          value: m.cacheMisses,
+        },
+        {
+          name: 'tmt_leaves',
+          help: 'Leaves in the tree.',
+          type: 'gauge',
+          value: this.leafCount,
+        },
+        {
+          name: 'tmt_memory_bytes',
+          help: 'Estimated memory used by the node store.',
+          type: 'gauge',
+          value: m.memoryUsageBytes,
+        },
+      ],
+      labels
+    );
+  }
+
+  // getRootHash returns the current root, or the root of a committed
+  // version; it reports false for an unknown or pruned version.
+  getRootHash(version?: number): [Hash | null, boolean] {
+    if (version !== undefined) {
+      const rec = this.versions.find(v => v.version === version);
+      return rec ? [new Uint8Array(rec.root), true] : [null, false];
+    }
     if (this.rootID === null) {
       return [null, false];
     }
-    return [this.nodes[this.rootID].hash, true];
+    return [this.node(this.rootID).hash, true];
   }
 
   getHeight(): number {
@@ -557,74 +2117,386 @@ export class TernaryMeshTree {
     return this.leafCount;
   }
 
+  getHashScheme(): HashScheme {
+    return this.cfg.hashScheme;
+  }
+
+  getHasher(): Hasher {
+    return this.cfg.hasher;
+  }
+
+  // close stops the tree's hashing workers, if any were started. The tree
+  // stays usable and starts new workers when needed.
+  async close(): Promise<void> {
+    return this.lock.write(async () => {
+      const pool = this.pool;
+      this.pool = null;
+      if (pool) {
+        await pool.close();
+      }
+    });
+  }
+
+  // retainsLeafData reports whether leaf payloads are kept; false in
+  // hash-only mode.
+  retainsLeafData(): boolean {
+    return this.cfg.retainLeafData;
+  }
+
   // ---------------------- internals ----------------------
 
+  // node reads a node, including changes not yet flushed to the store.
+  private node(id: NodeID): InternalNode {
+    const n =
+      this.dirtyNodes.get(id) ||
+      (this.clearPending ? undefined : this.store.getNode(id));
+    if (!n) {
+      throw new TMTError(`${ErrorMessages.MISSING_NODE}: ${id}`);
+    }
+    return n;
+  }
+
+  // mutable returns a private copy of a node to change in place; the copy
+  // is written by the next flush.
+  private mutable(id: NodeID): InternalNode {
+    this.touch(id);
+    let n = this.dirtyNodes.get(id);
+    if (!n) {
+      n = copyNode(this.node(id));
+      this.dirtyNodes.set(id, n);
+    }
+    return n;
+  }
+
+  private addNode(n: InternalNode): NodeID {
+    const id = this.nodeTotal++;
+    this.dirtyNodes.set(id, n);
+    return id;
+  }
+
+  // flush writes the nodes and leaf data changed since the last flush,
+  // along with the tree's metadata, as one store batch. Inside a
+  // transaction it does nothing; the transaction writes once it succeeds.
+  private flush(): void {
+    if (this.held) {
+      return;
+    }
+    this.writeDirty();
+    this.noticeRoot();
+  }
+
+  // writeDirty is flush without the event. After a rebuild the batch starts
+  // by clearing the store, so a failed write leaves the old tree in place.
+  private writeDirty(): void {
+    const ops: StoreOp[] = this.clearPending ? [{ type: 'clear' }] : [];
+    this.dirtyNodes.forEach((node, id) => ops.push({ type: 'node', id, node }));
+    this.dirtyData.forEach((data, slot) =>
+      ops.push({ type: 'leafData', slot, data })
+    );
+    ops.push({
+      type: 'meta',
+      meta: {
+        rootID: this.rootID,
+        leafCount: this.leafCount,
+        nodeCount: this.nodeTotal,
+        dataCount: this.dataTotal,
+        hashScheme: this.cfg.hashScheme,
+        hasher: this.cfg.hasher.name,
+        retainLeafData: this.cfg.retainLeafData,
+      },
+    });
+    this.store.batch(ops);
+    this.clearPending = false;
+    this.dirtyNodes.clear();
+    this.dirtyData.clear();
+  }
+
+  // noticeRoot fires rootChanged if the stored root differs from the one
+  // seen last.
+  private noticeRoot(): void {
+    // deserialize may store a broken tree for validate() to report on
+    const oldRoot = this.lastRoot;
+    const stored =
+      this.rootID === null ? null : this.store.getNode(this.rootID);
+    const newRoot = stored ? stored.hash : null;
+    if (
+      oldRoot === newRoot ||
+      (oldRoot && newRoot && hashesEqual(oldRoot, newRoot))
+    ) {
+      return;
+    }
+    this.lastRoot = newRoot && new Uint8Array(newRoot);
+    this.emit('rootChanged', {
+      oldRoot,
+      newRoot: newRoot && new Uint8Array(newRoot),
+    });
+  }
+
+  // finishBuild records a build's metrics and fires its event.
+  private finishBuild(start: number): void {
+    const durationMS = performance.now() - start;
+    if (this.cfg.enableMetrics) {
+      this.metrics.buildTimeMS = durationMS;
+      this.metrics.memoryUsageBytes = this.estimateMemoryUsage();
+      this.buildLatency.observe(durationMS / 1000);
+    }
+    this.emit('build', { leafCount: this.leafCount, durationMS });
+  }
+
+  // recordUpdate records the metrics of a mutation that changed count
+  // existing leaves and returns its duration.
+  private recordUpdate(start: number, count: number): number {
+    const durationMS = performance.now() - start;
+    if (this.cfg.enableMetrics) {
+      this.metrics.lastUpdateTimeNS = durationMS * 1_000_000;
+      this.metrics.totalUpdates += count;
+      this.metrics.memoryUsageBytes = this.estimateMemoryUsage();
+      this.updateLatency.observe(durationMS / 1000);
+    }
+    return durationMS;
+  }
+
+  // install replaces the tree with a staged one and empties the version
+  // history. The batch that writes the new tree also clears the store, so
+  // the store keeps the old tree until then.
+  private install(stage: StagedTree): void {
+    this.clearPending = true;
+    this.dirtyNodes = stage.nodes;
+    this.dirtyData = stage.data;
+    this.nodeTotal = stage.nodes.size;
+    this.dataTotal = stage.dataTotal;
+    this.versions = [];
+    this.leafIDs = stage.leafIDs;
+    this.leafCount = stage.leafCount;
+    this.rootID = stage.rootID;
+  }
+
+  // load resumes the tree described by a store's metadata. The leaf map is
+  // not stored; it is the leaves in left-to-right order.
+  private load(meta: StoreMeta): void {
+    if (!isHashScheme(meta.hashScheme)) {
+      throw new TMTError(
+        `${ErrorMessages.SERIALIZATION}: unknown hash scheme ${meta.hashScheme}`
+      );
+    }
+    this.cfg = {
+      ...this.cfg,
+      hashScheme: meta.hashScheme,
+      hasher: resolveHasher(meta.hasher, this.cfg),
+      retainLeafData: meta.retainLeafData,
+    };
+    this.rootID = meta.rootID;
+    this.leafCount = meta.leafCount;
+    this.nodeTotal = meta.nodeCount;
+    this.dataTotal = meta.dataCount;
+    this.lastRoot = meta.rootID === null ? null : this.node(meta.rootID).hash;
+    this.leafIDs = [];
+    const stack = this.rootID === null ? [] : [this.rootID];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      const n = this.node(id);
+      if (n.isLeaf) {
+        this.leafIDs.push(id);
+      } else {
+        for (let i = n.children.length - 1; i >= 0; i--) {
+          stack.push(n.children[i]);
+        }
+      }
+    }
+  }
+
+  // touch saves node id into the latest version's undo log before its first
+  // change since that commit. Nodes created after the commit need no copy.
+  private touch(id: NodeID): void {
+    const latest = this.versions[this.versions.length - 1];
+    if (!latest || id >= latest.nodeCount || latest.undo.has(id)) {
+      return;
+    }
+    latest.undo.set(id, copyNode(this.node(id)));
+  }
+
+  // nodeAtVersion reads a node as of rec: the first undo entry at or after
+  // rec holds its state then, and a node with none is unchanged since.
+  private nodeAtVersion(id: NodeID, rec: TreeVersion): InternalNode {
+    for (let i = this.versions.indexOf(rec); i < this.versions.length; i++) {
+      const saved = this.versions[i].undo.get(id);
+      if (saved) {
+        return saved;
+      }
+    }
+    return this.node(id);
+  }
+
+  private findVersion(version: number): TreeVersion {
+    const rec = this.versions.find(v => v.version === version);
+    if (!rec) {
+      throw new TMTError(`${ErrorMessages.UNKNOWN_VERSION}: ${version}`);
+    }
+    return rec;
+  }
+
   private async getCachedHash(data: Uint8Array): Promise<Hash> {
     if (!this.cfg.enableCaching) {
-      return computeHash(data);
+      return this.leafHash(data);
     }
 
     const key = Array.from(data).join(',');
-    if (this.hashCache.has(key)) {
-      return this.hashCache.get(key)!;
+    const hit = this.hashCache.get(key);
+    if (this.cfg.enableMetrics) {
+      this.metrics[hit ? 'cacheHits' : 'cacheMisses']++;
+    }
+    if (hit) {
+      return hit;
     }
 
-    const h = computeHash(data);
+    const h = this.leafHash(data);
     if (this.hashCache.size < this.cfg.maxCacheSize) {
       this.hashCache.set(key, h);
     }
     return h;
   }
 
-  private updateAncestors(cur: NodeID): void {
-    const anc: NodeID[] = [];
-    let current = cur;
-    
-    while (true) {
-      const n = this.nodes[current];
-      if (n.parent === null) {
-        break;
+  // tombstoneHash marks removed leaves; only meaningful for the tagged
+  // scheme, where it differs from every leaf hash.
+  private tombstoneHash(): Hash {
+    return this.nodeHash([]);
+  }
+
+  private isTombstone(h: Hash): boolean {
+    return (
+      this.cfg.hashScheme !== 'legacy' && hashesEqual(h, this.tombstoneHash())
+    );
+  }
+
+  private leafHash(data: Uint8Array): Hash {
+    return this.cfg.hasher.hashLeaf(data, this.cfg.hashScheme);
+  }
+
+  private nodeHash(hashes: Hash[]): Hash {
+    return this.cfg.hasher.hashNode(hashes, this.cfg.hashScheme);
+  }
+
+  // poolFor returns the worker pool when workers are enabled and n items
+  // reach parallelThreshold, starting it on first use. Workers only run the
+  // built-in hashers; custom ones hash on the calling thread.
+  private poolFor(n: number): HashPool | null {
+    const { workers, parallelThreshold, hasher } = this.cfg;
+    if (workers <= 0 || parallelThreshold <= 0 || n < parallelThreshold) {
+      return null;
+    }
+    if (builtinHasher(hasher.name) !== hasher) {
+      return null;
+    }
+    if (!this.pool) {
+      this.pool = new HashPool(
+        workers,
+        this.cfg.workerBatchSize,
+        this.cfg.workerFactory
+      );
+    }
+    return this.pool;
+  }
+
+  // hashOnPool hashes items on the worker pool. A pool that fails is
+  // closed and dropped, so the next build starts a fresh one.
+  private async hashOnPool(
+    pool: HashPool,
+    items: Uint8Array[],
+    tag: number
+  ): Promise<Hash[]> {
+    try {
+      return await pool.hash(items, this.tagFor(tag), this.cfg.hasher);
+    } catch (err) {
+      if (this.pool === pool) {
+        this.pool = null;
       }
-      const p = n.parent;
-      anc.push(p);
-      current = p;
+      await pool.close();
+      throw err;
     }
+  }
 
-    for (let i = anc.length - 1; i >= 0; i--) {
-      this.recomputeNodeHash(anc[i]);
+  // tagFor maps a domain tag to the prefix workers put before each item;
+  // the legacy scheme hashes items unprefixed.
+  private tagFor(tag: number): number {
+    return this.cfg.hashScheme === 'legacy' ? -1 : tag;
+  }
+
+  // storeLeafData keeps a copy of a leaf slot's payload unless the tree is
+  // hash-only.
+  private storeLeafData(slot: number, data: Uint8Array): void {
+    if (this.cfg.retainLeafData) {
+      this.dirtyData.set(slot, new Uint8Array(data));
+      this.dataTotal = Math.max(this.dataTotal, slot + 1);
     }
   }
 
-  private collectAncestors(cur: NodeID, set: Set<NodeID>): void {
-    let current = cur;
-    while (true) {
-      const n = this.nodes[current];
-      if (n.parent === null) {
-        break;
+  private leafDataAt(slot: number): Uint8Array {
+    const d =
+      this.dirtyData.get(slot) ||
+      (this.clearPending ? undefined : this.store.getLeafData(slot));
+    return d || new Uint8Array(0);
+  }
+
+  // recomputeAncestors rehashes every ancestor of the given nodes, one level
+  // at a time, so each parent sees its children's final hashes. All leaves
+  // sit at the same depth, so a frontier never mixes levels.
+  private recomputeAncestors(ids: NodeID[]): void {
+    let frontier = ids;
+    while (frontier.length > 0) {
+      const parents = new Set<NodeID>();
+      for (const id of frontier) {
+        const p = this.node(id).parent;
+        if (p !== null) {
+          parents.add(p);
+        }
+      }
+      frontier = Array.from(parents);
+      for (const pid of frontier) {
+        this.recomputeNodeHash(pid);
       }
-      const p = n.parent;
-      set.add(p);
-      current = p;
     }
   }
 
   private recomputeNodeHash(id: NodeID): void {
-    if (id >= this.nodes.length) {
+    if (id >= this.nodeTotal) {
       throw new TMTError(`${ErrorMessages.INVALID_INDEX}: ${id}`);
     }
-    const n = this.nodes[id];
+    const n = this.node(id);
     if (n.isLeaf) {
       return;
     }
     const childHashes: Hash[] = [];
     for (const cid of n.children) {
-      childHashes.push(this.nodes[cid].hash);
+      childHashes.push(this.node(cid).hash);
+    }
+    this.mutable(id).hash = this.nodeHash(childHashes);
+  }
+
+  // nodeAt finds the node at the given level (leaves are level 0) and
+  // position by walking down from the root.
+  private nodeAt(level: number, index: number): NodeID {
+    const rootLevel = this.rootLevel();
+    let cur = this.rootID!;
+    for (let l = rootLevel - 1; l >= level; l--) {
+      const pos = Math.floor(index / Math.pow(3, l - level)) % 3;
+      cur = this.node(cur).children[pos];
+    }
+    return cur;
+  }
+
+  // rootLevel counts the edges from the root down to the leaves.
+  private rootLevel(): number {
+    let level = 0;
+    let cur = this.rootID!;
+    while (!this.node(cur).isLeaf) {
+      cur = this.node(cur).children[0];
+      level++;
     }
-    this.nodes[id].hash = combineHashes(childHashes);
+    return level;
   }
 
   private calculateHeight(id: NodeID): number {
-    const n = this.nodes[id];
+    const n = this.node(id);
     if (n.isLeaf) {
       return 1;
     }
@@ -639,20 +2511,516 @@ export class TernaryMeshTree {
   }
 
   private estimateMemoryUsage(): number {
-    // quick estimate: node header + leaves
-    const approxNodeBytes = 80; // rough avg estimate
-    let total = approxNodeBytes * this.nodes.length;
-    for (const d of this.leafData) {
-      total += d.length;
+    return this.store.memoryUsage();
+  }
+}
+
+// ---------------------- Stateless verification ----------------------
+
+// verifyProofAgainstRoot checks a proof using only a trusted root hash, so
+// light clients do not need the tree. The leaf index is bound to the path:
+// it must equal the index implied by the per-level positions. The scheme
+// and hasher must match the ones the tree was built with.
+export function verifyProofAgainstRoot(
+  proof: VerificationProof,
+  leafData: Uint8Array,
+  root: Hash,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  let computed: Hash;
+  try {
+    const leafHash = hasher.hashLeaf(leafData, scheme);
+    computed = computeRootFromProof(proof, leafHash, scheme, hasher);
+  } catch (err) {
+    return [false, err as Error];
+  }
+  return [hashesEqual(computed, root), null];
+}
+
+// verifyRemovalProof checks that the leaf at proof.leafIndex holds a
+// tombstone under root, i.e. was removed. Removal exists only in the tagged
+// scheme.
+export function verifyRemovalProof(
+  proof: VerificationProof,
+  root: Hash,
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  let computed: Hash;
+  try {
+    const tombstone = hasher.hashNode([], 'tagged');
+    computed = computeRootFromProof(proof, tombstone, 'tagged', hasher);
+  } catch (err) {
+    return [false, err as Error];
+  }
+  return [hashesEqual(computed, root), null];
+}
+
+function computeRootFromProof(
+  proof: VerificationProof,
+  leafHash: Hash,
+  scheme: HashScheme,
+  hasher: Hasher
+): Hash {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`);
+
+  if (!Array.isArray(proof.steps) || proof.steps.length !== proof.pathLength) {
+    throw invalid('step count does not match path length');
+  }
+
+  let curHash = leafHash;
+  let si = 0;
+  let index = 0;
+  let scale = 1;
+
+  for (const step of proof.steps) {
+    const { pos, childCount } = step;
+    if (childCount < 1 || childCount > 3 || pos < 0 || pos >= childCount) {
+      throw invalid(`bad step (pos ${pos}, children ${childCount})`);
+    }
+
+    const childHashes: Hash[] = new Array(childCount);
+    childHashes[pos] = curHash;
+    for (let i = 0; i < childCount - 1; i++) {
+      if (si >= proof.siblingHashes.length) {
+        throw invalid('missing sibling hash');
+      }
+      const sh = proof.siblingHashes[si];
+      si++;
+      if (sh.pos < 0 || sh.pos >= childCount || childHashes[sh.pos]) {
+        throw invalid(`bad sibling position ${sh.pos}`);
+      }
+      if (sh.hash.length !== leafHash.length) {
+        throw invalid(`bad sibling hash length ${sh.hash.length}`);
+      }
+      childHashes[sh.pos] = sh.hash;
+    }
+
+    curHash = hasher.hashNode(childHashes, scheme);
+    index += pos * scale;
+    scale *= 3;
+  }
+
+  if (si !== proof.siblingHashes.length) {
+    throw invalid('unused sibling hashes');
+  }
+  if (index !== proof.leafIndex) {
+    throw invalid(`path does not lead to leaf ${proof.leafIndex}`);
+  }
+  return curHash;
+}
+
+// verifyConsistencyProof checks that newRoot (over newSize leaves) extends
+// oldRoot (over oldSize leaves). Both tree shapes follow from the sizes, so
+// the verifier rebuilds the old root from the shared subtrees plus the empty
+// padding leaves, and the new root from the shared and the added subtrees.
+export function verifyConsistencyProof(
+  oldRoot: Hash,
+  oldSize: number,
+  newRoot: Hash,
+  newSize: number,
+  proof: ConsistencyProof,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  const invalid = (reason: string): [boolean, Error | null] => [
+    false,
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`),
+  ];
+
+  if (
+    !Number.isInteger(oldSize) ||
+    !Number.isInteger(newSize) ||
+    oldSize < 1 ||
+    oldSize > newSize
+  ) {
+    return invalid(`bad sizes ${oldSize} -> ${newSize}`);
+  }
+  if (proof.oldSize !== oldSize || proof.newSize !== newSize) {
+    return invalid('proof sizes do not match');
+  }
+  for (const h of proof.hashes) {
+    if (h.length !== newRoot.length) {
+      return invalid(`bad hash length ${h.length}`);
+    }
+  }
+  if (oldSize === newSize) {
+    if (proof.hashes.length !== 0) {
+      return invalid('unused hashes');
+    }
+    return [hashesEqual(oldRoot, newRoot), null];
+  }
+
+  // new tree: consume hashes top-down, remembering the shared subtrees
+  const shared = new Map<string, Hash>();
+  const newSizes = levelSizes(newSize);
+  let next = 0;
+  const take = (): Hash | null =>
+    next < proof.hashes.length ? proof.hashes[next++] : null;
+
+  const newHash = (level: number, index: number): Hash | null => {
+    const width = Math.pow(3, level);
+    const lo = index * width;
+    if (lo + width <= oldSize) {
+      const h = take();
+      if (h !== null) {
+        shared.set(`${level}:${index}`, h);
+      }
+      return h;
+    }
+    if (lo >= oldSize) {
+      return take();
+    }
+    const childHashes: Hash[] = [];
+    for (let c = 0; c < 3 && index * 3 + c < newSizes[level - 1]; c++) {
+      const h = newHash(level - 1, index * 3 + c);
+      if (h === null) {
+        return null;
+      }
+      childHashes.push(h);
+    }
+    return hasher.hashNode(childHashes, scheme);
+  };
+
+  const computedNew = newHash(newSizes.length - 1, 0);
+  if (computedNew === null) {
+    return invalid('missing hashes');
+  }
+  if (next !== proof.hashes.length) {
+    return invalid('unused hashes');
+  }
+
+  // old tree: the shared subtrees plus empty padding leaves
+  const oldSizes = levelSizes(oldSize);
+  const padding = hasher.hashLeaf(new Uint8Array(0), scheme);
+  const oldHash = (level: number, index: number): Hash | null => {
+    const width = Math.pow(3, level);
+    const lo = index * width;
+    if (lo + width <= oldSize) {
+      return shared.get(`${level}:${index}`) || null;
+    }
+    if (level === 0) {
+      return padding;
+    }
+    const childHashes: Hash[] = [];
+    for (let c = 0; c < 3 && index * 3 + c < oldSizes[level - 1]; c++) {
+      const h = oldHash(level - 1, index * 3 + c);
+      if (h === null) {
+        return null;
+      }
+      childHashes.push(h);
+    }
+    return hasher.hashNode(childHashes, scheme);
+  };
+
+  const computedOld = oldHash(oldSizes.length - 1, 0);
+  if (computedOld === null) {
+    return invalid('missing shared subtree');
+  }
+
+  return [
+    hashesEqual(computedOld, oldRoot) && hashesEqual(computedNew, newRoot),
+    null,
+  ];
+}
+
+// verifyMultiProof checks a MultiProof against a trusted root. leaves must
+// hold the data of proof.indices, in the same order.
+export function verifyMultiProof(
+  proof: MultiProof,
+  leaves: Uint8Array[],
+  root: Hash,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  const invalid = (reason: string): [boolean, Error | null] => [
+    false,
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`),
+  ];
+
+  const { leafCount, indices } = proof;
+  if (!Number.isInteger(leafCount) || leafCount < 1) {
+    return invalid(`bad leaf count ${leafCount}`);
+  }
+  if (indices.length === 0 || indices.length !== leaves.length) {
+    return invalid('indices and leaves do not match');
+  }
+  for (let i = 0; i < indices.length; i++) {
+    const idx = indices[i];
+    if (!Number.isInteger(idx) || idx < 0 || idx >= leafCount) {
+      return invalid(`bad index ${idx}`);
+    }
+    if (i > 0 && idx <= indices[i - 1]) {
+      return invalid('indices must be sorted and unique');
+    }
+  }
+  for (const h of proof.hashes) {
+    if (h.length !== root.length) {
+      return invalid(`bad hash length ${h.length}`);
+    }
+  }
+
+  const sizes = levelSizes(leafCount);
+  const padding = hasher.hashLeaf(new Uint8Array(0), scheme);
+  let known = new Map<number, Hash>();
+  indices.forEach((idx, i) =>
+    known.set(idx, hasher.hashLeaf(leaves[i], scheme))
+  );
+  let next = 0;
+
+  for (let level = 0; level < sizes.length - 1; level++) {
+    const parents = uniqueParents(Array.from(known.keys()));
+    const computed = new Map<number, Hash>();
+    for (const p of parents) {
+      const childHashes: Hash[] = [];
+      for (let c = 0; c < 3 && p * 3 + c < sizes[level]; c++) {
+        const ci = p * 3 + c;
+        const h = known.get(ci);
+        if (h) {
+          childHashes.push(h);
+        } else if (level === 0 && ci >= leafCount) {
+          childHashes.push(padding);
+        } else if (next < proof.hashes.length) {
+          childHashes.push(proof.hashes[next++]);
+        } else {
+          return invalid('missing hashes');
+        }
+      }
+      computed.set(p, hasher.hashNode(childHashes, scheme));
+    }
+    known = computed;
+  }
+
+  if (next !== proof.hashes.length) {
+    return invalid('unused hashes');
+  }
+  return [hashesEqual(known.get(0)!, root), null];
+}
+
+// verifyRangeProof checks that leaves are the tree's leaves from start on,
+// rebuilding the subtrees inside the range from them and taking only the
+// edge siblings from the proof.
+export function verifyRangeProof(
+  root: Hash,
+  start: number,
+  leaves: Uint8Array[],
+  proof: RangeProof,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  if (proof.start !== start || proof.end !== start + leaves.length) {
+    return [
+      false,
+      new TMTError(
+        `${ErrorMessages.INVALID_PROOF}: range does not match the leaves`
+      ),
+    ];
+  }
+  const indices = leaves.map((_, i) => start + i);
+  const multi = { leafCount: proof.leafCount, indices, hashes: proof.hashes };
+  return verifyMultiProof(multi, leaves, root, scheme, hasher);
+}
+
+// ---------------------- Proof encoding ----------------------
+
+// Binary proof layout, version 1 (integers big-endian):
+//
+//	u8  version
+//	u8  hash length
+//	u32 leaf index
+//	u8  path length
+//	    2 bits per step, high bits first: the parent's child count - 1
+//	    sibling hashes, per step in ascending position order
+//
+// A node's position among its siblings is the matching base-3 digit of the
+// leaf index (leaves are grouped in threes on every level), so positions
+// are not stored, and sibling positions follow from each step.
+const PROOF_VERSION = 1;
+const PROOF_HEADER_LEN = 7;
+
+export function encodeProof(proof: VerificationProof): Uint8Array {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`);
+
+  const { leafIndex, steps, siblingHashes } = proof;
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex > 0xffffffff) {
+    throw invalid(`leaf index ${leafIndex} out of range`);
+  }
+  if (steps.length !== proof.pathLength || steps.length > 0xff) {
+    throw invalid('bad path length');
+  }
+  const hashLen = siblingHashes.length > 0 ? siblingHashes[0].hash.length : 32;
+  if (hashLen < 1 || hashLen > 0xff) {
+    throw invalid(`bad hash length ${hashLen}`);
+  }
+
+  const packedLen = Math.ceil(steps.length / 4);
+  const out = new Uint8Array(
+    PROOF_HEADER_LEN + packedLen + siblingHashes.length * hashLen
+  );
+  const view = new DataView(out.buffer);
+  view.setUint8(0, PROOF_VERSION);
+  view.setUint8(1, hashLen);
+  view.setUint32(2, leafIndex);
+  view.setUint8(6, steps.length);
+
+  let si = 0;
+  let off = PROOF_HEADER_LEN + packedLen;
+  let rest = leafIndex;
+  steps.forEach((step, i) => {
+    const { pos, childCount } = step;
+    if (childCount < 1 || childCount > 3 || pos < 0 || pos >= childCount) {
+      throw invalid(`bad step (pos ${pos}, children ${childCount})`);
+    }
+    if (pos !== rest % 3) {
+      throw invalid(`step ${i} position does not match the leaf index`);
+    }
+    rest = Math.floor(rest / 3);
+    out[PROOF_HEADER_LEN + (i >> 2)] |= (childCount - 1) << (6 - 2 * (i % 4));
+
+    for (let p = 0; p < childCount; p++) {
+      if (p === pos) {
+        continue;
+      }
+      const sh = siblingHashes[si++];
+      if (!sh || sh.pos !== p || sh.hash.length !== hashLen) {
+        throw invalid('sibling hashes are not in canonical order');
+      }
+      out.set(sh.hash, off);
+      off += hashLen;
+    }
+  });
+  if (rest !== 0) {
+    throw invalid('leaf index does not fit the path');
+  }
+  if (si !== siblingHashes.length) {
+    throw invalid('unused sibling hashes');
+  }
+  return out;
+}
+
+// decodeProof parses encodeProof output and rejects anything that does not
+// round-trip: unknown versions, unexpected hash lengths, bad steps, and
+// truncated or trailing bytes.
+export function decodeProof(
+  bytes: Uint8Array,
+  hashLength = 32
+): VerificationProof {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`);
+
+  if (bytes.length < PROOF_HEADER_LEN) {
+    throw invalid('truncated header');
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint8(0);
+  if (version !== PROOF_VERSION) {
+    throw invalid(`unsupported version ${version}`);
+  }
+  const hashLen = view.getUint8(1);
+  if (hashLen !== hashLength) {
+    throw invalid(`hash length ${hashLen}, expected ${hashLength}`);
+  }
+  const leafIndex = view.getUint32(2);
+  const pathLength = view.getUint8(6);
+
+  const packedLen = Math.ceil(pathLength / 4);
+  if (bytes.length < PROOF_HEADER_LEN + packedLen) {
+    throw invalid('truncated steps');
+  }
+
+  const steps: ProofStep[] = [];
+  let siblingCount = 0;
+  let rest = leafIndex;
+  for (let i = 0; i < pathLength; i++) {
+    const b = bytes[PROOF_HEADER_LEN + (i >> 2)];
+    const childCount = ((b >> (6 - 2 * (i % 4))) & 0x03) + 1;
+    const pos = rest % 3;
+    rest = Math.floor(rest / 3);
+    if (childCount > 3 || pos >= childCount) {
+      throw invalid(`bad step ${i} (pos ${pos}, children ${childCount})`);
     }
-    return total;
+    steps.push({ pos, childCount });
+    siblingCount += childCount - 1;
+  }
+  if (rest !== 0) {
+    throw invalid('leaf index does not fit the path');
+  }
+  const used = pathLength % 4;
+  const lastPacked = bytes[PROOF_HEADER_LEN + packedLen - 1];
+  if (used !== 0 && (lastPacked & (0xff >> (2 * used))) !== 0) {
+    throw invalid('non-zero padding bits');
   }
+
+  const expected = PROOF_HEADER_LEN + packedLen + siblingCount * hashLen;
+  if (bytes.length < expected) {
+    throw invalid('truncated sibling hashes');
+  }
+  if (bytes.length > expected) {
+    throw invalid('trailing bytes');
+  }
+
+  const siblingHashes: SiblingHash[] = [];
+  let off = PROOF_HEADER_LEN + packedLen;
+  for (const { pos, childCount } of steps) {
+    for (let p = 0; p < childCount; p++) {
+      if (p === pos) {
+        continue;
+      }
+      siblingHashes.push({ pos: p, hash: bytes.slice(off, off + hashLen) });
+      off += hashLen;
+    }
+  }
+
+  return { leafIndex, siblingHashes, pathLength, steps };
 }
 
 // ---------------------- helpers ----------------------
 
+// uniqueParents maps sorted positions on one level to the sorted, distinct
+// positions of their parents.
+function uniqueParents(sorted: number[]): number[] {
+  const out: number[] = [];
+  for (const i of sorted) {
+    const p = Math.floor(i / 3);
+    if (out.length === 0 || out[out.length - 1] !== p) {
+      out.push(p);
+    }
+  }
+  return out;
+}
+
+// levelSizes returns how many nodes each level holds in a tree over leafCount
+// leaves, from the padded leaf level up to the root.
+export function levelSizes(leafCount: number): number[] {
+  const sizes = [Math.ceil(leafCount / 3) * 3];
+  while (sizes[sizes.length - 1] > 1) {
+    sizes.push(Math.ceil(sizes[sizes.length - 1] / 3));
+  }
+  return sizes;
+}
+
 
 
+function concatHashes(hashes: Hash[]): Uint8Array {
+  const len = hashes.length > 0 ? hashes[0].length : 0;
+  const out = new Uint8Array(hashes.length * len);
+  for (let i = 0; i < hashes.length; i++) {
+    out.set(hashes[i], i * len);
+  }
+  return out;
+}
+
+function copyNode(n: InternalNode): InternalNode {
+  return {
+    hash: n.hash,
+    children: n.children.slice(),
+    isLeaf: n.isLeaf,
+    parent: n.parent,
+  };
+}
+
 function chunkBy<T>(arr: T[], k: number): T[][] {
   if (k <= 0) {
     return [arr];
@@ -703,4 +3071,4 @@ export async function selfTest(): Promise<void> {
 
 // ---------------------- Default export ----------------------
 
-export default TernaryMeshTree;
\ No newline at end of file
+export default TernaryMeshTree;
@@ -0,0 +1,68 @@
+// Async read/write lock used by TernaryMeshTree to keep one operation from
+// seeing another's half-done changes across await points.
+
+interface Waiter {
+  write: boolean;
+  wake: () => void;
+}
+
+// RWLock lets readers share the lock and gives a writer sole use of it.
+// Waiters are served in arrival order, so a waiting writer holds back the
+// readers that come after it. The lock is not reentrant: fn must not take
+// it again.
+export class RWLock {
+  private readers = 0;
+  private writing = false;
+  private queue: Waiter[] = [];
+
+  async read<T>(fn: () => T | Promise<T>): Promise<T> {
+    await this.acquire(false);
+    try {
+      return await fn();
+    } finally {
+      this.release(false);
+    }
+  }
+
+  async write<T>(fn: () => T | Promise<T>): Promise<T> {
+    await this.acquire(true);
+    try {
+      return await fn();
+    } finally {
+      this.release(true);
+    }
+  }
+
+  private acquire(write: boolean): Promise<void> {
+    if (this.queue.length === 0 && this.free(write)) {
+      this.take(write);
+      return Promise.resolve();
+    }
+    return new Promise(wake => this.queue.push({ write, wake }));
+  }
+
+  private release(write: boolean): void {
+    if (write) {
+      this.writing = false;
+    } else {
+      this.readers--;
+    }
+    while (this.queue.length > 0 && this.free(this.queue[0].write)) {
+      const next = this.queue.shift()!;
+      this.take(next.write);
+      next.wake();
+    }
+  }
+
+  private free(write: boolean): boolean {
+    return write ? !this.writing && this.readers === 0 : !this.writing;
+  }
+
+  private take(write: boolean): void {
+    if (write) {
+      this.writing = true;
+    } else {
+      this.readers++;
+    }
+  }
+}
@@ -0,0 +1,379 @@
+// TernaryMeshMap: a key/value layer over TernaryMeshTree. Entries are kept
+// sorted by key bytes and stored one per leaf, so membership is proven by
+// key instead of by leaf index.
+
+import {
+  blake3Hasher,
+  Config,
+  defaultConfig,
+  ErrorMessages,
+  Hash,
+  Hasher,
+  HashScheme,
+  TernaryMeshTree,
+  TMTError,
+  verifyProofAgainstRoot,
+  VerificationProof,
+} from './index';
+import { RWLock } from './lock';
+
+// MapKey is a raw byte key or a string, which is keyed by its UTF-8 bytes.
+export type MapKey = string | Uint8Array;
+
+type MapValue = Uint8Array | null; // null deletes in batch()
+
+interface MapEntry {
+  key: Uint8Array;
+  value: Uint8Array;
+}
+
+// EntryProof is an inclusion proof for one entry, carrying the entry.
+export interface EntryProof {
+  key: Uint8Array;
+  value: Uint8Array;
+  proof: VerificationProof;
+}
+
+// AbsenceProof shows a key is missing by proving its neighbours: left is
+// the greatest smaller key and right the smallest greater one. Either is
+// null at the ends; both are null for an empty map.
+export interface AbsenceProof {
+  left: EntryProof | null;
+  right: EntryProof | null;
+}
+
+export class TernaryMeshMap {
+  private tree: TernaryMeshTree;
+  private entries: MapEntry[] = [];
+  private cfg: Config;
+  private lock = new RWLock(); // changes run one at a time
+
+  // The map keeps the values itself, so the tree only holds leaf hashes, in
+  // memory: the entries are not persisted, so neither is the tree.
+  constructor(cfg: Config = defaultConfig()) {
+    this.cfg = { ...cfg, retainLeafData: false, store: undefined };
+    this.tree = new TernaryMeshTree(this.cfg);
+  }
+
+  get(key: MapKey): Uint8Array | undefined {
+    const [i, found] = this.search(keyBytes(key));
+    return found ? new Uint8Array(this.entries[i].value) : undefined;
+  }
+
+  has(key: MapKey): boolean {
+    return this.search(keyBytes(key))[1];
+  }
+
+  async set(key: MapKey, value: Uint8Array): Promise<void> {
+    await this.batch(new Map([[key, value]]));
+  }
+
+  // delete removes key and reports whether it was present.
+  async delete(key: MapKey): Promise<boolean> {
+    return this.lock.write(async () => {
+      const existed = this.has(key);
+      if (existed) {
+        await this.apply(new Map([[key, null]]));
+      }
+      return existed;
+    });
+  }
+
+  // batch applies many sets (value) and deletes (null) at once. Changes to
+  // existing keys become one tree batchUpdate and keys sorting after the
+  // current last key are appended; anything else rebuilds the tree once.
+  // Calls that overlap are applied one after another, in call order.
+  async batch(changes: Map<MapKey, MapValue>): Promise<void> {
+    return this.lock.write(() => this.apply(changes));
+  }
+
+  // apply is batch without the lock; it works out the new entries from the
+  // current ones, so it must not overlap another change.
+  private async apply(changes: Map<MapKey, MapValue>): Promise<void> {
+    const changed = new Map<string, { key: Uint8Array; value: MapValue }>();
+    changes.forEach((value, k) => {
+      const key = keyBytes(k);
+      changed.set(keyID(key), { key, value });
+    });
+
+    const updates = new Map<number, Uint8Array>(); // entry index -> value
+    const added: MapEntry[] = [];
+    let reorder = false; // a delete, or an insert before the last key
+    changed.forEach(({ key, value }) => {
+      const [i, found] = this.search(key);
+      if (value === null) {
+        reorder = reorder || found;
+      } else if (found) {
+        updates.set(i, new Uint8Array(value));
+      } else {
+        added.push({ key: new Uint8Array(key), value: new Uint8Array(value) });
+        reorder = reorder || i < this.entries.length;
+      }
+    });
+    if (updates.size === 0 && added.length === 0 && !reorder) {
+      return;
+    }
+
+    added.sort((a, b) => compareBytes(a.key, b.key));
+    let merged = this.entries
+      .map((e, i) =>
+        updates.has(i) ? { key: e.key, value: updates.get(i)! } : e
+      )
+      .concat(added);
+    if (reorder) {
+      merged = merged
+        .filter(e => {
+          const c = changed.get(keyID(e.key));
+          return !c || c.value !== null;
+        })
+        .sort((a, b) => compareBytes(a.key, b.key));
+    }
+
+    if (merged.length === 0) {
+      this.tree = new TernaryMeshTree(this.cfg);
+    } else if (reorder || this.entries.length === 0) {
+      await this.tree.build(merged.map(e => encodeEntry(e.key, e.value)));
+    } else {
+      await this.tree.transaction(async tx => {
+        if (updates.size > 0) {
+          const leaves = new Map<number, Uint8Array>();
+          updates.forEach((_, i) => {
+            leaves.set(i, encodeEntry(merged[i].key, merged[i].value));
+          });
+          await tx.batchUpdate(leaves);
+        }
+        if (added.length > 0) {
+          const tail = merged.slice(this.entries.length);
+          await tx.appendBatch(tail.map(e => encodeEntry(e.key, e.value)));
+        }
+      });
+    }
+    this.entries = merged;
+  }
+
+  // proveKey returns an inclusion proof for key's entry; check it with
+  // verifyKeyProof.
+  proveKey(key: MapKey): VerificationProof {
+    const [i, found] = this.search(keyBytes(key));
+    if (!found) {
+      throw new TMTError(ErrorMessages.KEY_NOT_FOUND);
+    }
+    return this.tree.generateProof(i);
+  }
+
+  // proveAbsence returns the neighbours of a missing key; check it with
+  // verifyAbsenceProof.
+  proveAbsence(key: MapKey): AbsenceProof {
+    const [i, found] = this.search(keyBytes(key));
+    if (found) {
+      throw new TMTError(ErrorMessages.KEY_PRESENT);
+    }
+    const entryProof = (j: number): EntryProof | null => {
+      if (j < 0 || j >= this.entries.length) {
+        return null;
+      }
+      const e = this.entries[j];
+      return {
+        key: new Uint8Array(e.key),
+        value: new Uint8Array(e.value),
+        proof: this.tree.generateProof(j),
+      };
+    };
+    return { left: entryProof(i - 1), right: entryProof(i) };
+  }
+
+  // getRootHash returns the root over all entries; an empty map has none.
+  getRootHash(): [Hash | null, boolean] {
+    if (this.entries.length === 0) {
+      return [null, false];
+    }
+    return this.tree.getRootHash();
+  }
+
+  size(): number {
+    return this.entries.length;
+  }
+
+  // keys returns the keys in proof order (ascending bytes).
+  keys(): Uint8Array[] {
+    return this.entries.map(e => new Uint8Array(e.key));
+  }
+
+  // search returns the index of key, or where it would be inserted.
+  private search(key: Uint8Array): [number, boolean] {
+    let lo = 0;
+    let hi = this.entries.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      const c = compareBytes(this.entries[mid].key, key);
+      if (c === 0) {
+        return [mid, true];
+      }
+      if (c < 0) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return [lo, false];
+  }
+}
+
+// verifyKeyProof checks that key maps to value in the map with the given
+// root. scheme and hasher must match the map's configuration.
+export function verifyKeyProof(
+  root: Hash,
+  key: MapKey,
+  value: Uint8Array,
+  proof: VerificationProof,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  const leaf = encodeEntry(keyBytes(key), value);
+  return verifyProofAgainstRoot(proof, leaf, root, scheme, hasher);
+}
+
+// verifyAbsenceProof checks that key is not in the map with the given root
+// (null for an empty map). Both neighbours must be proven entries around
+// key, at adjacent leaf indices. Without a right neighbour the left one must
+// be the last leaf: its padding siblings are empty leaves and every node
+// above it is the last child of its parent. Without a left neighbour the
+// right one must be leaf 0.
+export function verifyAbsenceProof(
+  root: Hash | null,
+  key: MapKey,
+  proof: AbsenceProof,
+  scheme: HashScheme = 'tagged',
+  hasher: Hasher = blake3Hasher
+): [boolean, Error | null] {
+  const invalid = (reason: string): [boolean, Error | null] => [
+    false,
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`),
+  ];
+  const k = keyBytes(key);
+  const { left, right } = proof;
+
+  if (!left && !right) {
+    return [root === null, null];
+  }
+  if (root === null) {
+    return invalid('neighbours given for an empty map');
+  }
+  for (const n of [left, right]) {
+    if (!n) {
+      continue;
+    }
+    const [ok, err] = verifyKeyProof(
+      root,
+      n.key,
+      n.value,
+      n.proof,
+      scheme,
+      hasher
+    );
+    if (!ok) {
+      return [false, err];
+    }
+  }
+
+  if (left && compareBytes(left.key, k) >= 0) {
+    return invalid('left neighbour does not sort before the key');
+  }
+  if (right && compareBytes(k, right.key) >= 0) {
+    return invalid('right neighbour does not sort after the key');
+  }
+  if (left && right) {
+    if (left.proof.leafIndex + 1 !== right.proof.leafIndex) {
+      return invalid('neighbours are not adjacent');
+    }
+  } else if (right) {
+    if (right.proof.leafIndex !== 0) {
+      return invalid('right neighbour is not the first entry');
+    }
+  } else if (
+    !isLastLeaf(left!.proof, hasher.hashLeaf(new Uint8Array(0), scheme))
+  ) {
+    return invalid('left neighbour is not the last entry');
+  }
+  return [true, null];
+}
+
+// isLastLeaf reports whether a proof, already checked against a root, is
+// for the rightmost real leaf. Entries are never empty, so they cannot be
+// mistaken for padding.
+function isLastLeaf(proof: VerificationProof, padding: Hash): boolean {
+  const [first, ...upper] = proof.steps;
+  if (!first) {
+    return false;
+  }
+  const leafSiblings = proof.siblingHashes.slice(0, first.childCount - 1);
+  for (const sh of leafSiblings) {
+    if (sh.pos > first.pos && !bytesEqual(sh.hash, padding)) {
+      return false;
+    }
+  }
+  return upper.every(step => step.pos === step.childCount - 1);
+}
+
+// encodeEntry lays out a leaf as u32 key length (big-endian), key, value,
+// so key and value boundaries cannot be shifted.
+function encodeEntry(key: Uint8Array, value: Uint8Array): Uint8Array {
+  const out = new Uint8Array(4 + key.length + value.length);
+  new DataView(out.buffer).setUint32(0, key.length);
+  out.set(key, 4);
+  out.set(value, 4 + key.length);
+  return out;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && compareBytes(a, b) === 0;
+}
+
+// keyID turns a key into a Map-friendly string.
+function keyID(key: Uint8Array): string {
+  return Array.from(key).join(',');
+}
+
+// keyBytes returns the bytes a key stands for.
+export function keyBytes(key: MapKey): Uint8Array {
+  return typeof key === 'string' ? utf8(key) : key;
+}
+
+function utf8(s: string): Uint8Array {
+  const out: number[] = [];
+  for (let i = 0; i < s.length; i++) {
+    let c = s.charCodeAt(i);
+    if (c >= 0xd800 && c < 0xdc00 && i + 1 < s.length) {
+      const lo = s.charCodeAt(i + 1);
+      if (lo >= 0xdc00 && lo < 0xe000) {
+        c = 0x10000 + ((c - 0xd800) << 10) + (lo - 0xdc00);
+        i++;
+      }
+    }
+    if (c < 0x80) {
+      out.push(c);
+    } else if (c < 0x800) {
+      out.push(0xc0 | (c >> 6), 0x80 | (c & 63));
+    } else if (c < 0x10000) {
+      out.push(0xe0 | (c >> 12), 0x80 | ((c >> 6) & 63), 0x80 | (c & 63));
+    } else {
+      out.push(
+        0xf0 | (c >> 18),
+        0x80 | ((c >> 12) & 63),
+        0x80 | ((c >> 6) & 63),
+        0x80 | (c & 63)
+      );
+    }
+  }
+  return new Uint8Array(out);
+}
@@ -0,0 +1,158 @@
+// Observable metrics: latency histograms and the Prometheus text exposition
+// format used by TernaryMeshTree.exportPrometheus.
+
+// LATENCY_BUCKETS are histogram upper bounds in seconds, from 10µs to 10s.
+export const LATENCY_BUCKETS = [
+  0.00001,
+  0.000025,
+  0.00005,
+  0.0001,
+  0.00025,
+  0.0005,
+  0.001,
+  0.0025,
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+];
+
+// HistogramBucket is a cumulative count of observations <= le.
+export interface HistogramBucket {
+  le: number; // Infinity for the last bucket
+  count: number;
+}
+
+// Histogram counts observations into fixed buckets, as Prometheus does, so
+// it stays small however many values it sees; quantiles are estimates
+// within a bucket.
+export class Histogram {
+  readonly bounds: number[];
+  count = 0;
+  sum = 0;
+  private counts: number[]; // per bucket, not cumulative; +Inf last
+
+  constructor(bounds: number[] = LATENCY_BUCKETS) {
+    this.bounds = bounds.slice().sort((a, b) => a - b);
+    this.counts = new Array(this.bounds.length + 1).fill(0);
+  }
+
+  observe(value: number): void {
+    let i = 0;
+    while (i < this.bounds.length && value > this.bounds[i]) {
+      i++;
+    }
+    this.counts[i]++;
+    this.count++;
+    this.sum += value;
+  }
+
+  // quantile estimates the q-quantile (0 <= q <= 1) like PromQL's
+  // histogram_quantile: linear within the bucket holding the rank, and
+  // capped at the highest bound. An empty histogram reports 0.
+  quantile(q: number): number {
+    if (this.count === 0) {
+      return 0;
+    }
+    const rank = Math.min(Math.max(q, 0), 1) * this.count;
+    let below = 0;
+    for (let i = 0; i < this.bounds.length; i++) {
+      const n = this.counts[i];
+      if (n > 0 && below + n >= rank) {
+        const lower = i === 0 ? 0 : this.bounds[i - 1];
+        return lower + ((this.bounds[i] - lower) * (rank - below)) / n;
+      }
+      below += n;
+    }
+    return this.bounds[this.bounds.length - 1];
+  }
+
+  buckets(): HistogramBucket[] {
+    const out: HistogramBucket[] = [];
+    let total = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      total += this.counts[i];
+      out.push({
+        le: i < this.bounds.length ? this.bounds[i] : Infinity,
+        count: total,
+      });
+    }
+    return out;
+  }
+
+  reset(): void {
+    this.counts.fill(0);
+    this.count = 0;
+    this.sum = 0;
+  }
+}
+
+// MetricFamily is one named metric to export.
+export type MetricFamily =
+  | { name: string; help: string; type: 'counter' | 'gauge'; value: number }
+  | { name: string; help: string; type: 'histogram'; histogram: Histogram };
+
+// MetricLabels are added to every exported sample.
+export interface MetricLabels {
+  [name: string]: string;
+}
+
+// formatPrometheus renders families in the Prometheus text exposition
+// format (version 0.0.4).
+export function formatPrometheus(
+  families: MetricFamily[],
+  labels: MetricLabels = {}
+): string {
+  const lines: string[] = [];
+  for (const f of families) {
+    lines.push(`# HELP ${f.name} ${escapeHelp(f.help)}`);
+    lines.push(`# TYPE ${f.name} ${f.type}`);
+    if (f.type !== 'histogram') {
+      lines.push(sample(f.name, labels, f.value));
+      continue;
+    }
+    for (const b of f.histogram.buckets()) {
+      const le = { ...labels, le: formatValue(b.le) };
+      lines.push(sample(`${f.name}_bucket`, le, b.count));
+    }
+    lines.push(sample(`${f.name}_sum`, labels, f.histogram.sum));
+    lines.push(sample(`${f.name}_count`, labels, f.histogram.count));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function sample(name: string, labels: MetricLabels, value: number): string {
+  const pairs = Object.keys(labels).map(
+    k => `${k}="${escapeLabel(labels[k])}"`
+  );
+  const set = pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  return `${name}${set} ${formatValue(value)}`;
+}
+
+function formatValue(v: number): string {
+  if (v === Infinity) {
+    return '+Inf';
+  }
+  if (v === -Infinity) {
+    return '-Inf';
+  }
+  return Number.isNaN(v) ? 'NaN' : String(v);
+}
+
+function escapeLabel(s: string): string {
+  return s
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function escapeHelp(s: string): string {
+  return s.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
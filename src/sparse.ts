@@ -0,0 +1,412 @@
+// SparseTernaryTree: a fixed-depth ternary Merkle tree over the keyspace
+// [0, 3^depth), for commitments such as account state where almost every
+// leaf is empty. A key's base-3 digits are its path. Empty subtrees are not
+// stored and hash to precomputed defaults, so set, get and prove touch one
+// path of depth nodes.
+
+import {
+  blake3Hasher,
+  ErrorMessages,
+  Hash,
+  Hasher,
+  HashScheme,
+  hashToHex,
+  TMTError,
+  VerificationProof,
+} from './index';
+import { keyBytes, MapKey } from './map';
+
+// SparseKey addresses a leaf. An integer below 3^depth is the leaf index
+// itself; non-empty strings and bytes are placed by their digest.
+export type SparseKey = number | MapKey;
+
+export interface SparseOptions {
+  depth: number; // levels below the root
+  hashScheme: HashScheme;
+  hasher: Hasher;
+}
+
+// MAX_INDEX_DEPTH is the deepest tree whose leaf indices are exact numbers
+// (3^33 < 2^53): numeric keys and toVerificationProof need it.
+export const MAX_INDEX_DEPTH = 33;
+
+export function defaultSparseOptions(): SparseOptions {
+  return { depth: MAX_INDEX_DEPTH, hashScheme: 'tagged', hasher: blake3Hasher };
+}
+
+// SparseProof proves a key's value, or its absence, in a sparse tree.
+// Siblings equal to their level's default hash are left out: bit i of
+// present says whether siblings holds sibling i, counting two siblings per
+// level from the leaf up, in position order.
+export interface SparseProof {
+  depth: number;
+  path: number[]; // the key's digits, leaf level first
+  present: Uint8Array;
+  siblings: Hash[];
+}
+
+interface SparseEntry {
+  id: string; // the key that owns the leaf
+  value: Uint8Array;
+}
+
+export class SparseTernaryTree {
+  private opts: SparseOptions;
+  private defaults: Hash[]; // defaults[h]: an empty subtree of height h
+  private nodes = new Map<string, Hash>(); // non-default, by path prefix
+  private entries = new Map<string, SparseEntry>(); // by leaf path
+
+  constructor(opts: SparseOptions = defaultSparseOptions()) {
+    this.opts = opts;
+    this.defaults = defaultHashes(opts);
+  }
+
+  get(key: SparseKey): Uint8Array | undefined {
+    const e = this.entry(key);
+    return e ? new Uint8Array(e.value) : undefined;
+  }
+
+  has(key: SparseKey): boolean {
+    return this.entry(key) !== undefined;
+  }
+
+  // set stores value at key. An empty value is the same as no value, as
+  // with the padding leaves of TernaryMeshTree. Throws KEY_COLLISION if the
+  // leaf belongs to another key.
+  set(key: SparseKey, value: Uint8Array): void {
+    const { path, id } = locate(key, this.opts);
+    const keys = pathKeys(path);
+    this.owner(keys[0], id);
+    if (value.length === 0) {
+      this.entries.delete(keys[0]);
+    } else {
+      this.entries.set(keys[0], { id, value: new Uint8Array(value) });
+    }
+
+    const { hasher, hashScheme } = this.opts;
+    let cur = hasher.hashLeaf(sparseLeaf(key, value), hashScheme);
+    this.putNode(keys[0], 0, cur);
+    for (let h = 1; h <= this.opts.depth; h++) {
+      const children: Hash[] = [];
+      for (let d = 0; d < 3; d++) {
+        children.push(
+          d === path[h - 1] ? cur : this.nodeAt(keys[h] + d, h - 1)
+        );
+      }
+      cur = hasher.hashNode(children, hashScheme);
+      this.putNode(keys[h], h, cur);
+    }
+  }
+
+  // delete empties key's leaf and reports whether it held a value.
+  delete(key: SparseKey): boolean {
+    const present = this.has(key);
+    if (present) {
+      this.set(key, new Uint8Array(0));
+    }
+    return present;
+  }
+
+  // getRootHash returns the root; an empty tree has the default root.
+  getRootHash(): Hash {
+    return new Uint8Array(this.nodeAt('', this.opts.depth));
+  }
+
+  getDepth(): number {
+    return this.opts.depth;
+  }
+
+  size(): number {
+    return this.entries.size;
+  }
+
+  // prove returns a proof of key's value, or of its absence when it has
+  // none; check it with verifySparseProof.
+  prove(key: SparseKey): SparseProof {
+    const { path, id } = locate(key, this.opts);
+    const keys = pathKeys(path);
+    this.owner(keys[0], id);
+
+    const depth = this.opts.depth;
+    const present = new Uint8Array(Math.ceil((2 * depth) / 8));
+    const siblings: Hash[] = [];
+    let bit = 0;
+    for (let h = 0; h < depth; h++) {
+      for (let d = 0; d < 3; d++) {
+        if (d === path[h]) {
+          continue;
+        }
+        const sib = this.nodes.get(keys[h + 1] + d);
+        if (sib) {
+          present[bit >> 3] |= 1 << (bit & 7);
+          siblings.push(new Uint8Array(sib));
+        }
+        bit++;
+      }
+    }
+    return { depth, path, present, siblings };
+  }
+
+  // verify checks a proof for key against the current root; value null
+  // checks absence.
+  verify(
+    key: SparseKey,
+    value: Uint8Array | null,
+    proof: SparseProof
+  ): [boolean, Error | null] {
+    return verifySparseProof(this.getRootHash(), key, value, proof, this.opts);
+  }
+
+  // entry returns key's entry, if the key is present.
+  private entry(key: SparseKey): SparseEntry | undefined {
+    const { path, id } = locate(key, this.opts);
+    const e = this.entries.get(pathKeys(path)[0]);
+    return e && e.id === id ? e : undefined;
+  }
+
+  // owner throws if the leaf at leafKey holds another key's value.
+  private owner(leafKey: string, id: string): void {
+    const e = this.entries.get(leafKey);
+    if (e && e.id !== id) {
+      throw new TMTError(
+        `${ErrorMessages.KEY_COLLISION}: another key holds its leaf; use a deeper tree`
+      );
+    }
+  }
+
+  private nodeAt(key: string, height: number): Hash {
+    return this.nodes.get(key) || this.defaults[height];
+  }
+
+  private putNode(key: string, height: number, hash: Hash): void {
+    if (sameHash(hash, this.defaults[height])) {
+      this.nodes.delete(key);
+    } else {
+      this.nodes.set(key, hash);
+    }
+  }
+}
+
+// verifySparseProof checks that key holds value under root, or is empty
+// when value is null. opts must match the tree's.
+export function verifySparseProof(
+  root: Hash,
+  key: SparseKey,
+  value: Uint8Array | null,
+  proof: SparseProof,
+  opts: SparseOptions = defaultSparseOptions()
+): [boolean, Error | null] {
+  let computed: Hash;
+  try {
+    const { path } = locate(key, opts);
+    if (!sameDigits(path, proof.path)) {
+      throw new TMTError(
+        `${ErrorMessages.INVALID_PROOF}: path does not match key`
+      );
+    }
+    const levels = expandSiblings(proof, opts);
+    const { hasher, hashScheme } = opts;
+    const leaf = sparseLeaf(key, value || new Uint8Array(0));
+    computed = hasher.hashLeaf(leaf, hashScheme);
+    for (let h = 0; h < levels.length; h++) {
+      const children = levels[h].map(s => s.hash);
+      children.splice(path[h], 0, computed);
+      computed = hasher.hashNode(children, hashScheme);
+    }
+  } catch (err) {
+    return [false, err as Error];
+  }
+  return [sameHash(computed, root), null];
+}
+
+// sparseLeaf returns the leaf data hashed for key's value: u32 key length
+// (big-endian), key, value, so a proof only holds for the key it was made
+// for. An integer key is its own path and adds no key bytes. An empty
+// value is an empty leaf.
+export function sparseLeaf(key: SparseKey, value: Uint8Array): Uint8Array {
+  const k = typeof key === 'number' ? new Uint8Array(0) : byteKey(key);
+  if (value.length === 0) {
+    return new Uint8Array(0);
+  }
+  const out = new Uint8Array(4 + k.length + value.length);
+  new DataView(out.buffer).setUint32(0, k.length);
+  out.set(k, 4);
+  out.set(value, 4 + k.length);
+  return out;
+}
+
+// toVerificationProof expands a sparse proof into TernaryMeshTree's format,
+// filling in the default siblings, so verifyProofAgainstRoot accepts it
+// with sparseLeaf(key, value) as leaf data. leafIndex is the key's index,
+// so the tree must be at most MAX_INDEX_DEPTH deep.
+export function toVerificationProof(
+  proof: SparseProof,
+  opts: SparseOptions = defaultSparseOptions()
+): VerificationProof {
+  if (proof.depth > MAX_INDEX_DEPTH) {
+    throw new TMTError(
+      `${ErrorMessages.INVALID_DEPTH}: indices of a depth ${proof.depth} tree are not exact`
+    );
+  }
+  const levels = expandSiblings(proof, opts);
+  let leafIndex = 0;
+  for (let h = proof.depth - 1; h >= 0; h--) {
+    leafIndex = leafIndex * 3 + proof.path[h];
+  }
+  const siblingHashes: { pos: number; hash: Hash }[] = [];
+  levels.forEach(sibs => siblingHashes.push(...sibs));
+  return {
+    leafIndex,
+    siblingHashes,
+    pathLength: proof.depth,
+    steps: proof.path.map(pos => ({ pos, childCount: 3 })),
+  };
+}
+
+// expandSiblings checks a proof's shape and returns both siblings of each
+// level, leaf level first, with the omitted defaults restored.
+function expandSiblings(
+  proof: SparseProof,
+  opts: SparseOptions
+): { pos: number; hash: Hash }[][] {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_PROOF}: ${reason}`);
+  const { depth } = opts;
+  if (proof.depth !== depth) {
+    throw invalid(`depth ${proof.depth}, want ${depth}`);
+  }
+  if (proof.path.length !== depth) {
+    throw invalid('path length does not match depth');
+  }
+  if (proof.present.length !== Math.ceil((2 * depth) / 8)) {
+    throw invalid('bad bitmap length');
+  }
+
+  const defaults = defaultHashes(opts);
+  const levels: { pos: number; hash: Hash }[][] = [];
+  let bit = 0;
+  let si = 0;
+  for (let h = 0; h < depth; h++) {
+    const pos = proof.path[h];
+    if (pos !== 0 && pos !== 1 && pos !== 2) {
+      throw invalid(`bad path digit ${pos}`);
+    }
+    const sibs: { pos: number; hash: Hash }[] = [];
+    for (let d = 0; d < 3; d++) {
+      if (d === pos) {
+        continue;
+      }
+      let hash = defaults[h];
+      if (proof.present[bit >> 3] & (1 << (bit & 7))) {
+        if (si >= proof.siblings.length) {
+          throw invalid('missing sibling hash');
+        }
+        hash = proof.siblings[si++];
+        if (hash.length !== opts.hasher.outputLength) {
+          throw invalid(`bad sibling hash length ${hash.length}`);
+        }
+      }
+      sibs.push({ pos: d, hash });
+      bit++;
+    }
+    levels.push(sibs);
+  }
+  if (si !== proof.siblings.length) {
+    throw invalid('unused sibling hashes');
+  }
+  return levels;
+}
+
+// defaultHashes returns the hash of an empty subtree of each height up to
+// opts.depth. An empty leaf hashes like an empty value.
+function defaultHashes(opts: SparseOptions): Hash[] {
+  const { depth, hasher, hashScheme } = opts;
+  // byte keys need a digest with at least 3^depth values
+  const max = Math.floor((hasher.outputLength * 8 * Math.LN2) / Math.log(3));
+  if (!Number.isInteger(depth) || depth < 1 || depth > max) {
+    throw new TMTError(`${ErrorMessages.INVALID_DEPTH}: ${depth}`);
+  }
+  const out = [hasher.hashLeaf(new Uint8Array(0), hashScheme)];
+  for (let h = 1; h <= depth; h++) {
+    const d = out[h - 1];
+    out.push(hasher.hashNode([d, d, d], hashScheme));
+  }
+  return out;
+}
+
+// locate returns a key's path, leaf level first, and the id that tells
+// keys sharing a leaf apart. Byte keys use the digits of their unframed
+// digest, read as a big-endian number, so the path is uniform.
+function locate(
+  key: SparseKey,
+  opts: SparseOptions
+): { path: number[]; id: string } {
+  const path: number[] = [];
+  if (typeof key === 'number') {
+    if (
+      !Number.isSafeInteger(key) ||
+      key < 0 ||
+      key >= Math.pow(3, opts.depth)
+    ) {
+      throw new TMTError(`${ErrorMessages.INVALID_KEY}: ${key}`);
+    }
+    let n = key;
+    for (let i = 0; i < opts.depth; i++) {
+      path.push(n % 3);
+      n = Math.floor(n / 3);
+    }
+    return { path, id: `#${key}` };
+  }
+
+  const bytes = byteKey(key);
+  const digest = new Uint8Array(opts.hasher.hashLeaf(bytes, 'legacy'));
+  for (let i = 0; i < opts.depth; i++) {
+    let rem = 0;
+    for (let j = 0; j < digest.length; j++) {
+      const cur = rem * 256 + digest[j];
+      digest[j] = Math.floor(cur / 3);
+      rem = cur % 3;
+    }
+    path.push(rem);
+  }
+  return { path, id: hashToHex(bytes) };
+}
+
+// byteKey returns a string or byte key's bytes. They must not be empty,
+// which sparseLeaf keeps for integer keys.
+function byteKey(key: MapKey): Uint8Array {
+  const bytes = keyBytes(key);
+  if (bytes.length === 0) {
+    throw new TMTError(`${ErrorMessages.INVALID_KEY}: empty key`);
+  }
+  return bytes;
+}
+
+// pathKeys returns the map key of each node on a path, by height: the
+// digits from the root down to it. The root's is ''.
+function pathKeys(path: number[]): string[] {
+  const keys = new Array<string>(path.length + 1);
+  keys[path.length] = '';
+  for (let h = path.length - 1; h >= 0; h--) {
+    keys[h] = keys[h + 1] + path[h];
+  }
+  return keys;
+}
+
+function sameDigits(a: number[], b: number[]): boolean {
+  return (
+    Array.isArray(b) && a.length === b.length && a.every((d, i) => d === b[i])
+  );
+}
+
+function sameHash(a: Hash, b: Hash): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,518 @@
+// Node stores: where a TernaryMeshTree keeps its nodes and leaf data. The
+// tree reads nodes one at a time and writes everything an operation changed
+// as one batch, so an update persists only the leaf and its path to the root.
+
+import {
+  computeHash,
+  ErrorMessages,
+  HashScheme,
+  InternalNode,
+  NodeID,
+  TMTError,
+} from './index';
+
+// StoreMeta describes the stored tree so that it can be resumed.
+export interface StoreMeta {
+  rootID: NodeID | null;
+  leafCount: number;
+  nodeCount: number;
+  dataCount: number; // leaf data slots; 0 in hash-only mode
+  hashScheme: HashScheme;
+  hasher: string;
+  retainLeafData: boolean;
+}
+
+// StoreOp is one write: a node, the data of a leaf slot, or the metadata.
+// clear drops everything written before it, so a rebuild replaces the old
+// tree in the same batch that writes the new one.
+export type StoreOp =
+  | { type: 'node'; id: NodeID; node: InternalNode }
+  | { type: 'leafData'; slot: number; data: Uint8Array }
+  | { type: 'meta'; meta: StoreMeta }
+  | { type: 'clear' };
+
+// RecordOp is a StoreOp that writes something.
+type RecordOp = Exclude<StoreOp, { type: 'clear' }>;
+
+// NodeStore holds a tree's nodes and leaf data. Reads return undefined for
+// anything never written. Callers must not modify returned nodes, nor
+// written ones afterwards; the tree copies a node before changing it.
+export interface NodeStore {
+  getNode(id: NodeID): InternalNode | undefined;
+  getLeafData(slot: number): Uint8Array | undefined;
+  getMeta(): StoreMeta | undefined;
+  put(op: StoreOp): void;
+  batch(ops: StoreOp[]): void; // all or nothing, also across crashes
+  clear(): void; // drops everything, including the metadata
+  memoryUsage(): number; // rough bytes held in memory
+  close(): void;
+}
+
+// MemoryNodeStore keeps everything on the heap. It is the default store.
+export class MemoryNodeStore implements NodeStore {
+  private nodes: InternalNode[] = [];
+  private leafData: Uint8Array[] = [];
+  private meta: StoreMeta | undefined;
+
+  getNode(id: NodeID): InternalNode | undefined {
+    return this.nodes[id];
+  }
+
+  getLeafData(slot: number): Uint8Array | undefined {
+    return this.leafData[slot];
+  }
+
+  getMeta(): StoreMeta | undefined {
+    return this.meta;
+  }
+
+  put(op: StoreOp): void {
+    this.batch([op]);
+  }
+
+  batch(ops: StoreOp[]): void {
+    for (const op of ops) {
+      if (op.type === 'node') {
+        this.nodes[op.id] = op.node;
+      } else if (op.type === 'leafData') {
+        this.leafData[op.slot] = op.data;
+      } else if (op.type === 'meta') {
+        this.meta = { ...op.meta };
+      } else {
+        this.nodes = [];
+        this.leafData = [];
+        this.meta = undefined;
+      }
+    }
+  }
+
+  clear(): void {
+    this.batch([{ type: 'clear' }]);
+  }
+
+  memoryUsage(): number {
+    const approxNodeBytes = 80; // rough avg estimate
+    let total = approxNodeBytes * this.nodes.length;
+    for (const d of this.leafData) {
+      total += d ? d.length : 0;
+    }
+    return total;
+  }
+
+  close(): void {}
+}
+
+export interface FileStoreOptions {
+  segmentSize?: number; // start a new segment file past this size (64 MiB)
+  sync?: boolean; // fsync after every batch (false)
+}
+
+// Segment files hold frames: u32 body length, u8 flags, body, and a BLAKE3
+// checksum of everything before it. A batch is one or more frames, the last
+// flagged FRAME_END; a batch never spans two segments. Bodies hold records:
+// u8 type, u32 key (node id or leaf slot), u32 length, payload. A batch
+// that clears the store is written to FRESH_SEGMENT instead, which replaces
+// the old segments once it is complete.
+const SEGMENT_NAME = /^segment-(\d{6})\.log$/;
+const FRESH_SEGMENT = 'segment-fresh.log';
+const FRAME_HEADER_LEN = 5;
+const FRAME_END = 0x01;
+const FRAME_LIMIT = 4 << 20; // split large batches into frames of ~4 MiB
+const CHECKSUM_LEN = 32;
+const RECORD_HEADER_LEN = 9;
+const RECORD_TYPES: RecordOp['type'][] = ['node', 'leafData', 'meta'];
+const LOCATION_BYTES = 48; // rough heap cost of one index entry
+
+interface Location {
+  segment: number;
+  offset: number; // of the payload
+  length: number;
+}
+
+interface IndexUpdate {
+  type: RecordOp['type'];
+  key: number;
+  loc: Location;
+  meta?: StoreMeta;
+}
+
+// FileNodeStore keeps nodes and leaf data in append-only segment files under
+// dir and only an index of their locations in memory. Every write appends;
+// the newest record for an id wins. Opening the directory again replays the
+// segments, dropping a batch that was cut short by a crash. Node only.
+export class FileNodeStore implements NodeStore {
+  private fs: typeof import('fs');
+  private path: typeof import('path');
+  private dir: string;
+  private segmentSize: number;
+  private sync: boolean;
+  private fds: number[] = []; // segment i is segment-<i+1>.log
+  private tail = 0; // size of the last segment
+  private nodes: Location[] = [];
+  private leafData: Location[] = [];
+  private meta: StoreMeta | undefined;
+
+  constructor(dir: string, opts: FileStoreOptions = {}) {
+    // browser bundles map fs to an empty module
+    if (typeof require !== 'function' || !require('fs').openSync) {
+      throw new TMTError(
+        `${ErrorMessages.UNSUPPORTED}: FileNodeStore needs Node's fs module`
+      );
+    }
+    this.fs = require('fs');
+    this.path = require('path');
+    this.dir = dir;
+    this.segmentSize = opts.segmentSize || 64 << 20;
+    this.sync = opts.sync === true;
+    this.fs.mkdirSync(dir, { recursive: true });
+    this.replay();
+  }
+
+  getNode(id: NodeID): InternalNode | undefined {
+    const loc = this.nodes[id];
+    return loc ? decodeNode(this.read(loc)) : undefined;
+  }
+
+  getLeafData(slot: number): Uint8Array | undefined {
+    const loc = this.leafData[slot];
+    return loc ? this.read(loc) : undefined;
+  }
+
+  getMeta(): StoreMeta | undefined {
+    return this.meta ? { ...this.meta } : undefined;
+  }
+
+  put(op: StoreOp): void {
+    this.batch([op]);
+  }
+
+  // batch appends the records frame by frame and updates the index once the
+  // whole batch is written. If it fails part-way, the frames written so far
+  // are cut off again, so the next batch's end marker cannot commit them. A
+  // batch that clears the store is rewritten into a new segment instead.
+  batch(ops: StoreOp[]): void {
+    const cleared = ops.map(op => op.type).lastIndexOf('clear');
+    const records = ops.slice(cleared + 1).filter(isRecord);
+    if (cleared >= 0) {
+      this.rewrite(records);
+      return;
+    }
+    if (this.tail >= this.segmentSize) {
+      this.openSegment(this.fds.length, 'w+');
+    }
+    const segment = this.fds.length - 1;
+    const start = this.tail;
+    let updates: IndexUpdate[];
+    try {
+      updates = this.writeFrames(records, segment, this.fds[segment], start);
+      if (this.sync) {
+        this.fs.fsyncSync(this.fds[segment]);
+      }
+    } catch (err) {
+      this.tail = start;
+      this.fs.ftruncateSync(this.fds[segment], start);
+      throw err;
+    }
+    updates.forEach(u => this.apply(u));
+  }
+
+  // clear starts over with no segments but an empty one. Like any batch,
+  // it keeps the old segments until the new one is in place.
+  clear(): void {
+    this.batch([{ type: 'clear' }]);
+  }
+
+  memoryUsage(): number {
+    return LOCATION_BYTES * (this.nodes.length + this.leafData.length);
+  }
+
+  close(): void {
+    this.closeFiles();
+  }
+
+  // writeFrames writes records as frames from offset start of the file fd,
+  // which is or becomes segment, and returns their index updates. this.tail
+  // follows the end of the last frame written.
+  private writeFrames(
+    records: RecordOp[],
+    segment: number,
+    fd: number,
+    start: number
+  ): IndexUpdate[] {
+    this.tail = start;
+    const updates: IndexUpdate[] = [];
+    let parts: Uint8Array[] = [];
+    let bodyLen = 0;
+
+    const writeFrame = (flags: number): void => {
+      const frame = new Uint8Array(FRAME_HEADER_LEN + bodyLen + CHECKSUM_LEN);
+      const view = new DataView(frame.buffer);
+      view.setUint32(0, bodyLen);
+      frame[4] = flags;
+      let off = FRAME_HEADER_LEN;
+      for (const p of parts) {
+        frame.set(p, off);
+        off += p.length;
+      }
+      frame.set(computeHash(frame.subarray(0, off)), off);
+      this.fs.writeSync(fd, frame, 0, frame.length, this.tail);
+      this.tail += frame.length;
+      parts = [];
+      bodyLen = 0;
+    };
+
+    for (const op of records) {
+      const [key, payload] = encodeOp(op);
+      const header = new Uint8Array(RECORD_HEADER_LEN);
+      const view = new DataView(header.buffer);
+      header[0] = RECORD_TYPES.indexOf(op.type);
+      view.setUint32(1, key);
+      view.setUint32(5, payload.length);
+      const offset = this.tail + FRAME_HEADER_LEN + bodyLen + RECORD_HEADER_LEN;
+      updates.push({
+        type: op.type,
+        key,
+        loc: { segment, offset, length: payload.length },
+        meta: op.type === 'meta' ? { ...op.meta } : undefined,
+      });
+      parts.push(header, payload);
+      bodyLen += RECORD_HEADER_LEN + payload.length;
+      if (bodyLen >= FRAME_LIMIT) {
+        writeFrame(0);
+      }
+    }
+    writeFrame(FRAME_END);
+    return updates;
+  }
+
+  // rewrite replaces the store's contents with records. They are written
+  // and synced to a temporary file, which is renamed to FRESH_SEGMENT once
+  // complete; only then do the old segments go. A crash before the rename
+  // keeps the old tree, and replay finishes a rewrite cut short after it.
+  private rewrite(records: RecordOp[]): void {
+    const fresh = this.path.join(this.dir, FRESH_SEGMENT);
+    const tmp = `${fresh}.tmp`;
+    const tail = this.tail;
+    const fd = this.fs.openSync(tmp, 'w+');
+    let updates: IndexUpdate[];
+    try {
+      updates = this.writeFrames(records, 0, fd, 0);
+      this.fs.fsyncSync(fd);
+      this.fs.renameSync(tmp, fresh);
+    } catch (err) {
+      this.tail = tail;
+      this.fs.closeSync(fd);
+      this.fs.unlinkSync(tmp);
+      throw err;
+    }
+    const end = this.tail;
+    this.closeFiles();
+    this.finishRewrite();
+    this.fds = [fd];
+    this.tail = end;
+    this.nodes = [];
+    this.leafData = [];
+    this.meta = undefined;
+    updates.forEach(u => this.apply(u));
+  }
+
+  // finishRewrite deletes the old segments and makes FRESH_SEGMENT the
+  // first one.
+  private finishRewrite(): void {
+    for (const name of this.segmentNames()) {
+      this.fs.unlinkSync(this.path.join(this.dir, name));
+    }
+    this.fs.renameSync(
+      this.path.join(this.dir, FRESH_SEGMENT),
+      this.path.join(this.dir, segmentName(0))
+    );
+  }
+
+  private read(loc: Location): Uint8Array {
+    const buf = new Uint8Array(loc.length);
+    this.fs.readSync(this.fds[loc.segment], buf, 0, loc.length, loc.offset);
+    return buf;
+  }
+
+  private apply(u: IndexUpdate): void {
+    if (u.type === 'node') {
+      this.nodes[u.key] = u.loc;
+    } else if (u.type === 'leafData') {
+      this.leafData[u.key] = u.loc;
+    } else {
+      this.meta = u.meta;
+    }
+  }
+
+  // replay rebuilds the index from the segments. A torn or corrupt tail of
+  // the last segment is truncated back to the start of its batch. A fresh
+  // segment left by a rewrite replaces the others; a partial one is dropped.
+  private replay(): void {
+    const fresh = this.path.join(this.dir, FRESH_SEGMENT);
+    if (this.fs.existsSync(`${fresh}.tmp`)) {
+      this.fs.unlinkSync(`${fresh}.tmp`);
+    }
+    if (this.fs.existsSync(fresh)) {
+      this.finishRewrite();
+    }
+    const names = this.segmentNames();
+    names.forEach((name, i) => {
+      if (name !== segmentName(i)) {
+        throw corrupt(`missing segment ${segmentName(i)}`);
+      }
+    });
+    if (names.length === 0) {
+      this.openSegment(0, 'w+');
+      return;
+    }
+
+    for (let i = 0; i < names.length; i++) {
+      const fd = this.openSegment(i, 'r+');
+      const size = this.fs.fstatSync(fd).size;
+      let pending: IndexUpdate[] = [];
+      let batchStart = 0;
+      let off = 0;
+      while (off < size) {
+        const frame = this.readFrame(i, off, size);
+        if (!frame) {
+          break;
+        }
+        pending = pending.concat(frame.updates);
+        off = frame.end;
+        if (frame.flags & FRAME_END) {
+          pending.forEach(u => this.apply(u));
+          pending = [];
+          batchStart = off;
+        }
+      }
+      if (batchStart < size) {
+        if (i < names.length - 1) {
+          throw corrupt(`damaged segment ${names[i]}`);
+        }
+        this.fs.ftruncateSync(fd, batchStart);
+      }
+      this.tail = batchStart;
+    }
+  }
+
+  // readFrame parses the frame at off, or returns null if it is cut short
+  // or fails its checksum.
+  private readFrame(segment: number, off: number, size: number) {
+    if (off + FRAME_HEADER_LEN > size) {
+      return null;
+    }
+    const header = this.read({
+      segment,
+      offset: off,
+      length: FRAME_HEADER_LEN,
+    });
+    const bodyLen = new DataView(header.buffer).getUint32(0);
+    const end = off + FRAME_HEADER_LEN + bodyLen + CHECKSUM_LEN;
+    if (end > size) {
+      return null;
+    }
+    const frame = this.read({ segment, offset: off, length: end - off });
+    const signed = frame.subarray(0, frame.length - CHECKSUM_LEN);
+    const sum = computeHash(signed);
+    for (let i = 0; i < CHECKSUM_LEN; i++) {
+      if (sum[i] !== frame[signed.length + i]) {
+        return null;
+      }
+    }
+
+    const view = new DataView(frame.buffer);
+    const updates: IndexUpdate[] = [];
+    let pos = FRAME_HEADER_LEN;
+    while (pos < signed.length) {
+      const type = RECORD_TYPES[frame[pos]];
+      const key = view.getUint32(pos + 1);
+      const length = view.getUint32(pos + 5);
+      pos += RECORD_HEADER_LEN;
+      if (!type || pos + length > signed.length) {
+        throw corrupt(`bad record in ${segmentName(segment)} at ${off}`);
+      }
+      const loc = { segment, offset: off + pos, length };
+      const meta =
+        type === 'meta'
+          ? decodeMeta(frame.subarray(pos, pos + length))
+          : undefined;
+      updates.push({ type, key, loc, meta });
+      pos += length;
+    }
+    return { flags: frame[4], end, updates };
+  }
+
+  private openSegment(i: number, mode: string): number {
+    const fd = this.fs.openSync(this.path.join(this.dir, segmentName(i)), mode);
+    this.fds[i] = fd;
+    this.tail = 0;
+    return fd;
+  }
+
+  private segmentNames(): string[] {
+    return this.fs
+      .readdirSync(this.dir)
+      .filter((name: string) => SEGMENT_NAME.test(name))
+      .sort();
+  }
+
+  private closeFiles(): void {
+    for (const fd of this.fds) {
+      this.fs.closeSync(fd);
+    }
+    this.fds = [];
+  }
+}
+
+function segmentName(i: number): string {
+  return `segment-${String(i + 1).padStart(6, '0')}.log`;
+}
+
+function corrupt(reason: string): TMTError {
+  return new TMTError(`${ErrorMessages.SERIALIZATION}: ${reason}`);
+}
+
+function isRecord(op: StoreOp): op is RecordOp {
+  return op.type !== 'clear';
+}
+
+function encodeOp(op: RecordOp): [number, Uint8Array] {
+  if (op.type === 'node') {
+    return [op.id, encodeNode(op.node)];
+  }
+  if (op.type === 'leafData') {
+    return [op.slot, op.data];
+  }
+  return [0, new Uint8Array(Buffer.from(JSON.stringify(op.meta), 'utf8'))];
+}
+
+function decodeMeta(bytes: Uint8Array): StoreMeta {
+  return JSON.parse(Buffer.from(bytes).toString('utf8'));
+}
+
+// A node is laid out as u8 flags (bit 0 leaf, bit 1 has parent), u32
+// parent, u8 child count, u32 per child, then the hash.
+function encodeNode(n: InternalNode): Uint8Array {
+  const out = new Uint8Array(6 + 4 * n.children.length + n.hash.length);
+  const view = new DataView(out.buffer);
+  out[0] = (n.isLeaf ? 1 : 0) | (n.parent !== null ? 2 : 0);
+  view.setUint32(1, n.parent !== null ? n.parent : 0);
+  out[5] = n.children.length;
+  n.children.forEach((cid, i) => view.setUint32(6 + 4 * i, cid));
+  out.set(n.hash, 6 + 4 * n.children.length);
+  return out;
+}
+
+function decodeNode(bytes: Uint8Array): InternalNode {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const children: NodeID[] = [];
+  for (let i = 0; i < bytes[5]; i++) {
+    children.push(view.getUint32(6 + 4 * i));
+  }
+  return {
+    hash: bytes.slice(6 + 4 * children.length),
+    children,
+    isLeaf: (bytes[0] & 1) !== 0,
+    parent: bytes[0] & 2 ? view.getUint32(1) : null,
+  };
+}
@@ -0,0 +1,65 @@
+// Stream helpers: adapt byte sources to async iterables and split them into
+// fixed-size blocks for TernaryMeshTree.buildFromStream.
+
+import { ErrorMessages, TMTError } from './index';
+
+// ByteSource is anything that yields byte chunks: async iterables (including
+// Node readable streams) and WHATWG ReadableStreams.
+export type ByteSource = AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>;
+
+export function toAsyncIterable(source: ByteSource): AsyncIterable<Uint8Array> {
+  if (Symbol.asyncIterator in source) {
+    return source as AsyncIterable<Uint8Array>;
+  }
+  return readAll(source as ReadableStream<Uint8Array>);
+}
+
+async function* readAll(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      if (value) {
+        yield value;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// chunkStream re-slices a byte stream into blocks of exactly chunkSize bytes;
+// only the last block may be shorter. Empty input yields no blocks.
+export async function* chunkStream(
+  source: ByteSource,
+  chunkSize: number
+): AsyncGenerator<Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new TMTError(`${ErrorMessages.INVALID_CHUNK_SIZE}: ${chunkSize}`);
+  }
+
+  let buf = new Uint8Array(chunkSize);
+  let fill = 0;
+  for await (const part of toAsyncIterable(source)) {
+    let off = 0;
+    while (off < part.length) {
+      const n = Math.min(chunkSize - fill, part.length - off);
+      buf.set(part.subarray(off, off + n), fill);
+      fill += n;
+      off += n;
+      if (fill === chunkSize) {
+        yield buf;
+        buf = new Uint8Array(chunkSize);
+        fill = 0;
+      }
+    }
+  }
+  if (fill > 0) {
+    yield buf.slice(0, fill);
+  }
+}
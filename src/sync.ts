@@ -0,0 +1,184 @@
+// Remote sync: finds the leaves that differ from a peer's tree using only
+// node hashes, with one round trip per level. Messages are plain objects, so
+// any transport works; hashes travel as Uint8Arrays (encode them, e.g. with
+// bytesToBase64, for JSON transports).
+
+import {
+  ErrorMessages,
+  Hash,
+  HashScheme,
+  levelSizes,
+  NodeRange,
+  TernaryMeshTree,
+  TMTError,
+  TreeDiff,
+} from './index';
+
+// SyncSummary describes a peer's tree.
+export interface SyncSummary {
+  leafCount: number;
+  root: Hash;
+  hashScheme: HashScheme;
+  hasher: string;
+}
+
+export type SyncRequest =
+  | { type: 'summary' }
+  | { type: 'hashes'; level: number; ranges: NodeRange[] };
+
+// SyncResponse answers a SyncRequest; hashes holds one list per range.
+export type SyncResponse =
+  | { type: 'summary'; summary: SyncSummary }
+  | { type: 'hashes'; hashes: Hash[][] }
+  | { type: 'error'; message: string };
+
+// SyncTransport delivers a request to the peer's serveSync handler.
+export type SyncTransport = (req: SyncRequest) => Promise<SyncResponse>;
+
+// serveSync returns the handler that answers a peer's requests from tree.
+// Failures are answered with an error response instead of thrown.
+export function serveSync(
+  tree: TernaryMeshTree
+): (req: SyncRequest) => SyncResponse {
+  return req => {
+    try {
+      if (req.type === 'summary') {
+        const [root, ok] = tree.getRootHash();
+        if (!ok) {
+          throw new TMTError(ErrorMessages.UNINITIALIZED);
+        }
+        return {
+          type: 'summary',
+          summary: {
+            leafCount: tree.getLeafCount(),
+            root: root!,
+            hashScheme: tree.getHashScheme(),
+            hasher: tree.getHasher().name,
+          },
+        };
+      }
+      if (req.type === 'hashes') {
+        const hashes = req.ranges.map(r => tree.getNodeHashes(req.level, r));
+        return { type: 'hashes', hashes };
+      }
+      throw new TMTError(`${ErrorMessages.SYNC}: unknown request`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return { type: 'error', message };
+    }
+  };
+}
+
+// diffRemote finds the leaves that differ between tree and the peer behind
+// send, like tree.diff(peerTree). Each round asks for the children of the
+// positions that differed on the level above, so only differing subtrees
+// are transferred.
+export async function diffRemote(
+  tree: TernaryMeshTree,
+  send: SyncTransport
+): Promise<TreeDiff> {
+  const res = await send({ type: 'summary' });
+  if (res.type !== 'summary') {
+    throw responseError(res);
+  }
+  const { summary } = res;
+  if (
+    summary.hashScheme !== tree.getHashScheme() ||
+    summary.hasher !== tree.getHasher().name
+  ) {
+    throw new TMTError(
+      `${ErrorMessages.UNSUPPORTED}: peer uses a different hash scheme or hasher`
+    );
+  }
+  if (!tree.getRootHash()[1]) {
+    throw new TMTError(ErrorMessages.UNINITIALIZED);
+  }
+
+  const localSizes = levelSizes(tree.getLeafCount());
+  const remoteSizes = levelSizes(summary.leafCount);
+  const common = Math.min(tree.getLeafCount(), summary.leafCount);
+  const changed: number[] = [];
+  let level = Math.min(localSizes.length, remoteSizes.length) - 1;
+  let positions = [0];
+
+  while (positions.length > 0) {
+    const ranges = toRanges(positions);
+    const reply = await send({ type: 'hashes', level, ranges });
+    if (reply.type !== 'hashes') {
+      throw responseError(reply);
+    }
+    const remote = flatten(reply.hashes, ranges);
+    const local: Hash[] = [];
+    for (const r of ranges) {
+      local.push(...tree.getNodeHashes(level, r));
+    }
+    const differing = positions.filter(
+      (_, i) => !sameHash(local[i], remote[i])
+    );
+
+    if (level === 0) {
+      changed.push(...differing);
+      break;
+    }
+    level--;
+    const width = Math.pow(3, level);
+    const size = Math.min(localSizes[level], remoteSizes[level]);
+    positions = [];
+    for (const p of differing) {
+      for (let q = p * 3; q < p * 3 + 3 && q < size; q++) {
+        if (q * width < common) {
+          positions.push(q);
+        }
+      }
+    }
+  }
+
+  return { changed, leafCountDelta: summary.leafCount - tree.getLeafCount() };
+}
+
+// toRanges merges ascending positions into contiguous ranges.
+function toRanges(positions: number[]): NodeRange[] {
+  const ranges: NodeRange[] = [];
+  for (const p of positions) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === p) {
+      last.end++;
+    } else {
+      ranges.push({ start: p, end: p + 1 });
+    }
+  }
+  return ranges;
+}
+
+// flatten joins per-range hash lists, checking each has the requested size.
+function flatten(lists: Hash[][], ranges: NodeRange[]): Hash[] {
+  if (lists.length !== ranges.length) {
+    throw new TMTError(`${ErrorMessages.SYNC}: bad hashes response`);
+  }
+  const out: Hash[] = [];
+  lists.forEach((hashes, i) => {
+    if (hashes.length !== ranges[i].end - ranges[i].start) {
+      throw new TMTError(`${ErrorMessages.SYNC}: bad hashes response`);
+    }
+    out.push(...hashes);
+  });
+  return out;
+}
+
+function responseError(res: SyncResponse): TMTError {
+  const reason =
+    res.type === 'error' ? res.message : `unexpected ${res.type} response`;
+  return new TMTError(`${ErrorMessages.SYNC}: ${reason}`);
+}
+
+function sameHash(a: Hash, b: Hash): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,358 @@
+// Signed tree heads: a root checkpoint signed with Ed25519, so clients can
+// trust a root they did not compute. Signing uses Node's crypto module, or
+// WebCrypto where Node's is unavailable.
+
+import {
+  builtinHasher,
+  ErrorMessages,
+  Hash,
+  Hasher,
+  HashScheme,
+  hexToBytes,
+  TernaryMeshTree,
+  TMTError,
+  VerificationProof,
+  verifyProofAgainstRoot,
+} from './index';
+
+// TreeHead is the signed part of a checkpoint. timestamp is in
+// milliseconds since the epoch.
+export interface TreeHead {
+  root: Hash;
+  leafCount: number;
+  height: number;
+  timestamp: number;
+  hashScheme: HashScheme;
+  hasher: string;
+}
+
+export interface SignedTreeHead extends TreeHead {
+  signature: Uint8Array; // Ed25519 over encodeTreeHead(head)
+}
+
+// SigningKeyPair holds raw Ed25519 keys: the 32-byte private seed and the
+// 32-byte public key.
+export interface SigningKeyPair {
+  privateKey: Uint8Array;
+  publicKey: Uint8Array;
+}
+
+const HEAD_MAGIC = new Uint8Array([0x54, 0x4d, 0x54, 0x48]); // "TMTH"
+const HEAD_VERSION = 1;
+const HEAD_SCHEMES: HashScheme[] = ['legacy', 'tagged'];
+const HEAD_FIXED_LEN = 20; // magic, version, scheme, leafCount, height, timestamp
+
+const SIGNATURE_LEN = 64;
+const KEY_LEN = 32;
+// DER prefixes (hex) that wrap a raw Ed25519 key as PKCS#8 and SPKI
+const PKCS8_PREFIX = '302e020100300506032b657004220420';
+const SPKI_PREFIX = '302a300506032b6570032100';
+
+// createTreeHead describes a tree's current root.
+export function createTreeHead(
+  tree: TernaryMeshTree,
+  timestamp: number = Date.now()
+): TreeHead {
+  const [root, ok] = tree.getRootHash();
+  if (!ok) {
+    throw new TMTError(ErrorMessages.UNINITIALIZED);
+  }
+  return {
+    root: new Uint8Array(root!),
+    leafCount: tree.getLeafCount(),
+    height: tree.getHeight(),
+    timestamp,
+    hashScheme: tree.getHashScheme(),
+    hasher: tree.getHasher().name,
+  };
+}
+
+// encodeTreeHead returns the canonical bytes of a head, which are what is
+// signed. Layout, big-endian: "TMTH", u8 version, u8 scheme, u32 leafCount,
+// u16 height, u64 timestamp, u8 hasher name length, name (ASCII), u8 root
+// length, root.
+export function encodeTreeHead(head: TreeHead): Uint8Array {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_ENCODING}: ${reason}`);
+  const scheme = HEAD_SCHEMES.indexOf(head.hashScheme);
+  if (scheme < 0) {
+    throw invalid(`unknown hash scheme ${head.hashScheme}`);
+  }
+  if (!isUint(head.leafCount, 0xffffffff) || !isUint(head.height, 0xffff)) {
+    throw invalid('leaf count or height out of range');
+  }
+  if (!isUint(head.timestamp, Number.MAX_SAFE_INTEGER)) {
+    throw invalid(`bad timestamp ${head.timestamp}`);
+  }
+  if (head.hasher.length > 255 || !/^[\x20-\x7e]*$/.test(head.hasher)) {
+    throw invalid('hasher name must be short ASCII');
+  }
+  if (head.root.length === 0 || head.root.length > 255) {
+    throw invalid(`bad root length ${head.root.length}`);
+  }
+
+  const name = head.hasher;
+  const out = new Uint8Array(
+    HEAD_FIXED_LEN + 2 + name.length + head.root.length
+  );
+  const view = new DataView(out.buffer);
+  out.set(HEAD_MAGIC, 0);
+  view.setUint8(4, HEAD_VERSION);
+  view.setUint8(5, scheme);
+  view.setUint32(6, head.leafCount);
+  view.setUint16(10, head.height);
+  view.setUint32(12, Math.floor(head.timestamp / 0x100000000));
+  view.setUint32(16, head.timestamp % 0x100000000);
+  let off = HEAD_FIXED_LEN;
+  out[off++] = name.length;
+  for (let i = 0; i < name.length; i++) {
+    out[off++] = name.charCodeAt(i);
+  }
+  out[off++] = head.root.length;
+  out.set(head.root, off);
+  return out;
+}
+
+// decodeTreeHead parses encodeTreeHead output.
+export function decodeTreeHead(bytes: Uint8Array): TreeHead {
+  const invalid = (reason: string) =>
+    new TMTError(`${ErrorMessages.INVALID_ENCODING}: ${reason}`);
+  if (bytes.length < HEAD_FIXED_LEN + 2) {
+    throw invalid('tree head too short');
+  }
+  for (let i = 0; i < HEAD_MAGIC.length; i++) {
+    if (bytes[i] !== HEAD_MAGIC[i]) {
+      throw invalid('bad tree head magic');
+    }
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint8(4) !== HEAD_VERSION) {
+    throw invalid(`unsupported tree head version ${view.getUint8(4)}`);
+  }
+  const hashScheme = HEAD_SCHEMES[view.getUint8(5)];
+  if (!hashScheme) {
+    throw invalid(`unknown hash scheme ${view.getUint8(5)}`);
+  }
+  const timestamp = view.getUint32(12) * 0x100000000 + view.getUint32(16);
+  if (!Number.isSafeInteger(timestamp)) {
+    throw invalid('bad timestamp');
+  }
+
+  let off = HEAD_FIXED_LEN;
+  const nameLen = bytes[off++];
+  if (off + nameLen + 1 > bytes.length) {
+    throw invalid('tree head truncated');
+  }
+  const hasher = String.fromCharCode.apply(
+    null,
+    Array.from(bytes.subarray(off, off + nameLen))
+  );
+  off += nameLen;
+  const rootLen = bytes[off++];
+  if (rootLen === 0 || off + rootLen !== bytes.length) {
+    throw invalid('bad root length');
+  }
+  return {
+    root: bytes.slice(off),
+    leafCount: view.getUint32(6),
+    height: view.getUint16(10),
+    timestamp,
+    hashScheme,
+    hasher,
+  };
+}
+
+// generateSigningKey creates a random Ed25519 key pair.
+export async function generateSigningKey(): Promise<SigningKeyPair> {
+  return ed25519().generate();
+}
+
+// signTreeHead signs a head with a raw 32-byte Ed25519 private key.
+export async function signTreeHead(
+  head: TreeHead,
+  privateKey: Uint8Array
+): Promise<SignedTreeHead> {
+  checkKey(privateKey, 'private');
+  const signature = await ed25519().sign(privateKey, encodeTreeHead(head));
+  return {
+    root: new Uint8Array(head.root),
+    leafCount: head.leafCount,
+    height: head.height,
+    timestamp: head.timestamp,
+    hashScheme: head.hashScheme,
+    hasher: head.hasher,
+    signature,
+  };
+}
+
+// verifyTreeHead checks a head's signature against a raw 32-byte Ed25519
+// public key. A malformed head or signature reports an error.
+export async function verifyTreeHead(
+  sth: SignedTreeHead,
+  publicKey: Uint8Array
+): Promise<[boolean, Error | null]> {
+  try {
+    checkKey(publicKey, 'public');
+    if (!sth.signature || sth.signature.length !== SIGNATURE_LEN) {
+      throw new TMTError(
+        `${ErrorMessages.INVALID_SIGNATURE}: want ${SIGNATURE_LEN} bytes`
+      );
+    }
+    const ok = await ed25519().verify(
+      publicKey,
+      encodeTreeHead(sth),
+      sth.signature
+    );
+    return [ok, null];
+  } catch (err) {
+    return [false, err as Error];
+  }
+}
+
+// verifyProofAgainstTreeHead checks, in one call, that a signed head is
+// genuine and that proof shows leafData under its root. The proof must be
+// for a real leaf of the signed tree. hasher is needed only for custom
+// hashers; it must carry the head's hasher name.
+export async function verifyProofAgainstTreeHead(
+  sth: SignedTreeHead,
+  publicKey: Uint8Array,
+  proof: VerificationProof,
+  leafData: Uint8Array,
+  hasher?: Hasher
+): Promise<[boolean, Error | null]> {
+  const [signed, err] = await verifyTreeHead(sth, publicKey);
+  if (!signed) {
+    return [false, err];
+  }
+  const h = hasher || builtinHasher(sth.hasher);
+  if (!h || h.name !== sth.hasher) {
+    return [
+      false,
+      new TMTError(`${ErrorMessages.UNSUPPORTED}: hasher ${sth.hasher}`),
+    ];
+  }
+  if (proof.leafIndex >= sth.leafCount || proof.pathLength !== sth.height - 1) {
+    return [
+      false,
+      new TMTError(
+        `${ErrorMessages.INVALID_PROOF}: not a leaf of the signed tree`
+      ),
+    ];
+  }
+  return verifyProofAgainstRoot(proof, leafData, sth.root, sth.hashScheme, h);
+}
+
+function isUint(n: number, max: number): boolean {
+  return Number.isInteger(n) && n >= 0 && n <= max;
+}
+
+function checkKey(key: Uint8Array, kind: string): void {
+  if (!(key instanceof Uint8Array) || key.length !== KEY_LEN) {
+    throw new TMTError(
+      `${ErrorMessages.INVALID_KEY}: ${kind} key must be ${KEY_LEN} bytes`
+    );
+  }
+}
+
+// Ed25519 is the signing backend: Node's crypto or WebCrypto.
+interface Ed25519 {
+  generate(): Promise<SigningKeyPair>;
+  sign(privateKey: Uint8Array, msg: Uint8Array): Promise<Uint8Array>;
+  verify(
+    publicKey: Uint8Array,
+    msg: Uint8Array,
+    sig: Uint8Array
+  ): Promise<boolean>;
+}
+
+// ed25519 prefers Node's crypto; browser bundles map it to an empty module.
+function ed25519(): Ed25519 {
+  if (typeof require === 'function' && require('crypto').generateKeyPairSync) {
+    return nodeEd25519(require('crypto'));
+  }
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    return webEd25519(crypto.subtle);
+  }
+  throw new TMTError(
+    `${ErrorMessages.UNSUPPORTED}: no Ed25519 implementation (Node crypto or WebCrypto)`
+  );
+}
+
+function nodeEd25519(nodeCrypto: typeof import('crypto')): Ed25519 {
+  return {
+    generate: async () => {
+      const { privateKey, publicKey } = nodeCrypto.generateKeyPairSync(
+        'ed25519'
+      );
+      const pkcs8 = privateKey.export({ format: 'der', type: 'pkcs8' });
+      const spki = publicKey.export({ format: 'der', type: 'spki' });
+      return {
+        privateKey: rawKey(pkcs8),
+        publicKey: rawKey(spki),
+      };
+    },
+    sign: async (privateKey, msg) => {
+      const key = nodeCrypto.createPrivateKey({
+        key: Buffer.from(der(PKCS8_PREFIX, privateKey)),
+        format: 'der',
+        type: 'pkcs8',
+      });
+      return new Uint8Array(nodeCrypto.sign(null, Buffer.from(msg), key));
+    },
+    verify: async (publicKey, msg, sig) => {
+      const key = nodeCrypto.createPublicKey({
+        key: Buffer.from(der(SPKI_PREFIX, publicKey)),
+        format: 'der',
+        type: 'spki',
+      });
+      return nodeCrypto.verify(null, Buffer.from(msg), key, Buffer.from(sig));
+    },
+  };
+}
+
+function webEd25519(subtle: SubtleCrypto): Ed25519 {
+  const alg = { name: 'Ed25519' };
+  return {
+    generate: async () => {
+      const pair = (await subtle.generateKey(alg, true, [
+        'sign',
+        'verify',
+      ])) as CryptoKeyPair;
+      const pkcs8 = await subtle.exportKey('pkcs8', pair.privateKey);
+      const raw = await subtle.exportKey('raw', pair.publicKey);
+      return {
+        privateKey: rawKey(new Uint8Array(pkcs8)),
+        publicKey: new Uint8Array(raw),
+      };
+    },
+    sign: async (privateKey, msg) => {
+      const key = await subtle.importKey(
+        'pkcs8',
+        new Uint8Array(der(PKCS8_PREFIX, privateKey)),
+        alg,
+        false,
+        ['sign']
+      );
+      return new Uint8Array(await subtle.sign(alg, key, new Uint8Array(msg)));
+    },
+    verify: async (publicKey, msg, sig) => {
+      const raw = new Uint8Array(publicKey);
+      const key = await subtle.importKey('raw', raw, alg, false, ['verify']);
+      return subtle.verify(alg, key, new Uint8Array(sig), new Uint8Array(msg));
+    },
+  };
+}
+
+// der wraps a raw key behind a DER prefix.
+function der(prefixHex: string, key: Uint8Array): Uint8Array {
+  const prefix = hexToBytes(prefixHex);
+  const out = new Uint8Array(prefix.length + key.length);
+  out.set(prefix, 0);
+  out.set(key, prefix.length);
+  return out;
+}
+
+// rawKey takes the raw key from the end of a DER encoding.
+function rawKey(encoded: Uint8Array): Uint8Array {
+  return new Uint8Array(encoded.subarray(encoded.length - KEY_LEN));
+}
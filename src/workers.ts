@@ -0,0 +1,333 @@
+// Worker pool: hashes batches of leaves or node groups off the main thread.
+// Node uses worker_threads; browsers pass a WorkerFactory such as
+// webWorkerFactory(url), where the worker script calls serveHashWorker(self).
+
+import { computeHash, ErrorMessages, Hash, Hasher, TMTError } from './index';
+import { sha256 } from './sha256';
+
+// HashRequest asks a worker to hash every item of a batch. Items are packed
+// into one buffer (item i spans offsets[i]..offsets[i+1]) so the batch moves
+// between threads as two transferable buffers. hasher names a built-in
+// digest; prefix is the domain tag byte put in front of each item, or -1
+// for none.
+export interface HashRequest {
+  id: number;
+  hasher: string;
+  outputLength: number;
+  prefix: number;
+  data: Uint8Array;
+  offsets: Uint32Array;
+}
+
+// HashResponse carries the hashes of a batch, concatenated.
+export interface HashResponse {
+  id: number;
+  hashes?: Uint8Array;
+  error?: string;
+}
+
+// PoolWorker is the pool's handle on one worker. ref/unref are optional and
+// let Node exit while the pool is idle.
+export interface PoolWorker {
+  post(req: HashRequest, transfer: ArrayBuffer[]): void;
+  terminate(): unknown;
+  ref?(): void;
+  unref?(): void;
+}
+
+export type WorkerFactory = (
+  onMessage: (res: HashResponse) => void,
+  onError: (err: Error) => void
+) => PoolWorker;
+
+// handleHashRequest hashes one batch with the given hash function.
+export function handleHashRequest(
+  req: HashRequest,
+  hash: (data: Uint8Array) => Uint8Array
+): Uint8Array {
+  const count = req.offsets.length - 1;
+  const out = new Uint8Array(count * req.outputLength);
+  for (let i = 0; i < count; i++) {
+    let item = req.data.subarray(req.offsets[i], req.offsets[i + 1]);
+    if (req.prefix >= 0) {
+      const framed = new Uint8Array(item.length + 1);
+      framed[0] = req.prefix;
+      framed.set(item, 1);
+      item = framed;
+    }
+    out.set(hash(item), i * req.outputLength);
+  }
+  return out;
+}
+
+// WORKER_DIGESTS are the digests behind the built-in hashers, by name.
+const WORKER_DIGESTS: { [name: string]: (data: Uint8Array) => Uint8Array } = {
+  blake3: computeHash,
+  sha256,
+};
+
+// WorkerScope is the part of a Web Worker's global scope that
+// serveHashWorker needs.
+export interface WorkerScope {
+  onmessage: ((ev: MessageEvent) => void) | null;
+  postMessage(message: HashResponse, transfer: Transferable[]): void;
+}
+
+// serveHashWorker answers pool requests inside a Web Worker:
+//
+//	// hash.worker.js
+//	import { serveHashWorker } from 'tmt-ts';
+//	serveHashWorker(self);
+export function serveHashWorker(scope: WorkerScope): void {
+  scope.onmessage = ev => {
+    const req: HashRequest = ev.data;
+    try {
+      const digest = WORKER_DIGESTS[req.hasher];
+      if (!digest) {
+        throw new Error(`unsupported hasher ${req.hasher}`);
+      }
+      const hashes = handleHashRequest(req, digest);
+      scope.postMessage({ id: req.id, hashes }, [hashes.buffer]);
+    } catch (err) {
+      scope.postMessage({ id: req.id, error: String(err) }, []);
+    }
+  };
+}
+
+// webWorkerFactory starts Web Workers from a script that calls
+// serveHashWorker.
+export function webWorkerFactory(url: string | URL): WorkerFactory {
+  return (onMessage, onError) => {
+    const worker = new Worker(url);
+    worker.onmessage = ev => onMessage(ev.data);
+    worker.onerror = ev => onError(new Error(ev.message));
+    return {
+      post: (req, transfer) => worker.postMessage(req, transfer),
+      terminate: () => worker.terminate(),
+    };
+  };
+}
+
+// The Node worker is started from source so it needs no separate entry
+// file; it mirrors handleHashRequest and loads blake3 from the path the
+// main thread resolved.
+const NODE_WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const crypto = require('crypto');
+const digests = {
+  blake3: require(workerData.blake3).hash,
+  sha256: d => crypto.createHash('sha256').update(d).digest(),
+};
+parentPort.on('message', req => {
+  try {
+    const hash = digests[req.hasher];
+    if (!hash) {
+      throw new Error('unsupported hasher ' + req.hasher);
+    }
+    const count = req.offsets.length - 1;
+    const out = new Uint8Array(count * req.outputLength);
+    for (let i = 0; i < count; i++) {
+      let item = req.data.subarray(req.offsets[i], req.offsets[i + 1]);
+      if (req.prefix >= 0) {
+        const framed = new Uint8Array(item.length + 1);
+        framed[0] = req.prefix;
+        framed.set(item, 1);
+        item = framed;
+      }
+      out.set(hash(item), i * req.outputLength);
+    }
+    parentPort.postMessage({ id: req.id, hashes: out }, [out.buffer]);
+  } catch (err) {
+    parentPort.postMessage({ id: req.id, error: String(err) });
+  }
+});
+`;
+
+// nodeWorkerFactory starts worker_threads workers. It throws outside Node,
+// including in browser bundles, where worker_threads is an empty module and
+// a WorkerFactory has to be configured instead.
+export function nodeWorkerFactory(): WorkerFactory {
+  if (typeof require !== 'function' || !require('worker_threads').Worker) {
+    throw new TMTError(
+      `${ErrorMessages.WORKER}: no worker factory configured outside Node`
+    );
+  }
+  const { Worker } = require('worker_threads');
+  const blake3 = require.resolve('blake3');
+  return (onMessage, onError) => {
+    const worker = new Worker(NODE_WORKER_SOURCE, {
+      eval: true,
+      workerData: { blake3 },
+    });
+    worker.unref();
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    return {
+      post: (req, transfer) => worker.postMessage(req, transfer),
+      terminate: () => worker.terminate(),
+      ref: () => worker.ref(),
+      unref: () => worker.unref(),
+    };
+  };
+}
+
+interface PoolTask {
+  items: Uint8Array[];
+  hasher: Hasher;
+  prefix: number;
+  resolve: (hashes: Uint8Array) => void;
+  reject: (err: Error) => void;
+}
+
+// HashPool spreads hashing over a fixed set of workers, one batch per
+// worker at a time. Batches are packed only when a worker picks them up,
+// so at most one copy per worker is in flight.
+export class HashPool {
+  private workers: PoolWorker[] = [];
+  private running: (PoolTask | null)[] = [];
+  private queue: PoolTask[] = [];
+  private batchSize: number;
+  private nextID = 0;
+  private failure: Error | null = null;
+
+  constructor(size: number, batchSize: number, factory?: WorkerFactory) {
+    if (!Number.isInteger(size) || size < 1) {
+      throw new TMTError(`${ErrorMessages.WORKER}: bad pool size ${size}`);
+    }
+    this.batchSize = Math.max(1, Math.floor(batchSize));
+    const make = factory || nodeWorkerFactory();
+    for (let w = 0; w < size; w++) {
+      this.running.push(null);
+      this.workers.push(
+        make(
+          res => this.finish(w, res),
+          err => this.fail(err)
+        )
+      );
+    }
+  }
+
+  // hash returns the hashes of prefix||item for every item, in order, using
+  // the digest of a built-in hasher.
+  async hash(
+    items: Uint8Array[],
+    prefix: number,
+    hasher: Hasher
+  ): Promise<Hash[]> {
+    const len = hasher.outputLength;
+    const batches: Promise<Uint8Array>[] = [];
+    for (let i = 0; i < items.length; i += this.batchSize) {
+      const batch = items.slice(i, i + this.batchSize);
+      batches.push(
+        new Promise((resolve, reject) => {
+          this.queue.push({ items: batch, hasher, prefix, resolve, reject });
+        })
+      );
+    }
+    this.dispatch();
+
+    const out: Hash[] = [];
+    for (const packed of await Promise.all(batches)) {
+      for (let o = 0; o < packed.length; o += len) {
+        out.push(packed.slice(o, o + len));
+      }
+    }
+    return out;
+  }
+
+  // close terminates the workers; queued batches are rejected.
+  async close(): Promise<void> {
+    this.fail(new TMTError(`${ErrorMessages.WORKER}: pool closed`));
+    await Promise.all(this.workers.map(w => w.terminate()));
+    this.workers = [];
+  }
+
+  private dispatch(): void {
+    if (this.failure) {
+      const queued = this.queue;
+      this.queue = [];
+      for (const task of queued) {
+        task.reject(this.failure);
+      }
+      return;
+    }
+    for (let w = 0; w < this.workers.length; w++) {
+      if (this.running[w] !== null || this.queue.length === 0) {
+        continue;
+      }
+      const task = this.queue.shift()!;
+      const req = packRequest(this.nextID++, task);
+      this.running[w] = task;
+      const worker = this.workers[w];
+      if (worker.ref) {
+        worker.ref();
+      }
+      const transfer = [req.data.buffer, req.offsets.buffer] as ArrayBuffer[];
+      worker.post(req, transfer);
+    }
+  }
+
+  private finish(w: number, res: HashResponse): void {
+    const task = this.running[w];
+    this.running[w] = null;
+    const worker = this.workers[w];
+    if (worker && worker.unref) {
+      worker.unref();
+    }
+    if (task) {
+      const size = task.items.length * task.hasher.outputLength;
+      if (res.hashes && res.hashes.length === size) {
+        task.resolve(res.hashes);
+      } else {
+        task.reject(
+          new TMTError(`${ErrorMessages.WORKER}: ${res.error || 'bad reply'}`)
+        );
+      }
+    }
+    this.dispatch();
+  }
+
+  // fail rejects all pending work; the pool cannot be used afterwards.
+  private fail(err: Error): void {
+    if (!this.failure) {
+      this.failure =
+        err instanceof TMTError
+          ? err
+          : new TMTError(`${ErrorMessages.WORKER}: ${err.message}`);
+    }
+    const pending = this.queue.concat(
+      this.running.filter((t): t is PoolTask => t !== null)
+    );
+    this.queue = [];
+    this.running = this.running.map(() => null);
+    for (const worker of this.workers) {
+      if (worker.unref) {
+        worker.unref();
+      }
+    }
+    for (const task of pending) {
+      task.reject(this.failure);
+    }
+  }
+}
+
+function packRequest(id: number, task: PoolTask): HashRequest {
+  let total = 0;
+  for (const item of task.items) {
+    total += item.length;
+  }
+  const data = new Uint8Array(total);
+  const offsets = new Uint32Array(task.items.length + 1);
+  for (let i = 0; i < task.items.length; i++) {
+    data.set(task.items[i], offsets[i]);
+    offsets[i + 1] = offsets[i] + task.items[i].length;
+  }
+  return {
+    id,
+    hasher: task.hasher.name,
+    outputLength: task.hasher.outputLength,
+    prefix: task.prefix,
+    data,
+    offsets,
+  };
+}
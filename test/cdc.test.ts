@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import TernaryMeshTree, {
+  buildManifest,
+  cdcStream,
+  CdcOptions,
+  FileChunkStore,
+  manifestLeafAt,
+  MemoryChunkStore,
+  TMTError,
+} from '../src';
+
+async function* fromArray(parts: Uint8Array[]): AsyncGenerator<Uint8Array> {
+  for (const p of parts) {
+    yield p;
+  }
+}
+
+async function collect(source: AsyncIterable<Uint8Array>) {
+  const out: Uint8Array[] = [];
+  for await (const b of source) {
+    out.push(b);
+  }
+  return out;
+}
+
+// randomBytes is deterministic noise (xorshift32).
+function randomBytes(n: number, seed: number): Uint8Array {
+  const out = new Uint8Array(n);
+  let s = seed;
+  for (let i = 0; i < n; i++) {
+    s ^= s << 13;
+    s ^= s >>> 17;
+    s ^= s << 5;
+    out[i] = s & 0xff;
+  }
+  return out;
+}
+
+function split(data: Uint8Array, size: number): Uint8Array[] {
+  const parts: Uint8Array[] = [];
+  for (let off = 0; off < data.length; off += size) {
+    parts.push(data.subarray(off, off + size));
+  }
+  return parts;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    out.set(p, off);
+    off += p.length;
+  }
+  return out;
+}
+
+function keys(chunks: Uint8Array[]): Set<string> {
+  return new Set(chunks.map(c => Buffer.from(c).toString('hex')));
+}
+
+describe('content-defined chunking', () => {
+  const opts: CdcOptions = { minSize: 256, avgSize: 1024, maxSize: 4096 };
+  const data = randomBytes(100000, 7);
+
+  it('should cut the same chunks however the input arrives', async () => {
+    const whole = await collect(cdcStream(fromArray([data]), opts));
+    const pieces = await collect(cdcStream(fromArray(split(data, 333)), opts));
+    expect(pieces).toEqual(whole);
+    expect(concat(whole)).toEqual(data);
+
+    whole.slice(0, -1).forEach(c => {
+      expect(c.length).toBeGreaterThanOrEqual(opts.minSize);
+      expect(c.length).toBeLessThanOrEqual(opts.maxSize);
+    });
+    const avg = data.length / whole.length;
+    expect(avg).toBeGreaterThan(opts.minSize);
+    expect(avg).toBeLessThan(opts.maxSize / 2);
+
+    expect(await collect(cdcStream(fromArray([]), opts))).toEqual([]);
+  });
+
+  it('should keep chunks away from an edit', async () => {
+    const before = await collect(cdcStream(fromArray([data]), opts));
+    const edited = concat([
+      data.subarray(0, 50000),
+      randomBytes(10, 3),
+      data.subarray(50000),
+    ]);
+    const after = await collect(cdcStream(fromArray([edited]), opts));
+    const old = keys(before);
+    const fresh = after.filter(c => !old.has(Buffer.from(c).toString('hex')));
+    expect(fresh.length).toBeGreaterThan(0);
+    expect(fresh.length).toBeLessThanOrEqual(3);
+  });
+
+  it('should reject bad sizes', async () => {
+    const bad = [
+      { minSize: 0, avgSize: 8, maxSize: 16 },
+      { minSize: 16, avgSize: 8, maxSize: 32 },
+      { minSize: 4, avgSize: 64, maxSize: 32 },
+      { minSize: 4, avgSize: 8.5, maxSize: 32 },
+    ];
+    for (const o of bad) {
+      await expect(collect(cdcStream(fromArray([data]), o))).rejects.toThrow(
+        TMTError
+      );
+    }
+  });
+});
+
+describe('file manifests', () => {
+  const opts: CdcOptions = { minSize: 256, avgSize: 1024, maxSize: 4096 };
+  const data = randomBytes(60000, 11);
+  const dirs: string[] = [];
+
+  afterAll(() => {
+    for (const dir of dirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should only store the chunks an edit touched', async () => {
+    const store = new MemoryChunkStore();
+    const tree = new TernaryMeshTree();
+    const first = await buildManifest(tree, fromArray([data]), store, opts);
+    const { manifest } = first;
+    expect(manifest.size).toBe(data.length);
+    expect(first.newChunks).toEqual(manifest.chunks.map((_, i) => i));
+    expect(store.size()).toBe(manifest.chunks.length);
+    expect(tree.getLeafCount()).toBe(manifest.chunks.length);
+    expect(tree.getRootHash()[0]).toEqual(manifest.root);
+
+    const edited = new Uint8Array(data);
+    edited[30000] ^= 0xff;
+    const second = await buildManifest(
+      tree,
+      fromArray(split(edited, 1000)),
+      store,
+      opts
+    );
+    expect(second.newChunks).toEqual([manifestLeafAt(second.manifest, 30000)]);
+    expect(second.manifest.root).not.toEqual(manifest.root);
+
+    const again = await buildManifest(tree, fromArray([data]), store, opts);
+    expect(again.newChunks).toEqual([]);
+    expect(again.manifest).toEqual(manifest);
+  });
+
+  it('should map offsets to leaves', async () => {
+    const tree = new TernaryMeshTree();
+    const { manifest } = await buildManifest(
+      tree,
+      fromArray([data]),
+      new MemoryChunkStore(),
+      opts
+    );
+    manifest.chunks.forEach((c, i) => {
+      expect(manifestLeafAt(manifest, c.offset)).toBe(i);
+      expect(manifestLeafAt(manifest, c.offset + c.length - 1)).toBe(i);
+    });
+    expect(() => manifestLeafAt(manifest, data.length)).toThrow(TMTError);
+    expect(() => manifestLeafAt(manifest, -1)).toThrow(TMTError);
+  });
+
+  it('should keep chunks on disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tmt-chunks-'));
+    dirs.push(dir);
+    const tree = new TernaryMeshTree();
+    const { manifest } = await buildManifest(
+      tree,
+      fromArray([data]),
+      new FileChunkStore(dir),
+      opts
+    );
+
+    const reopened = new FileChunkStore(dir);
+    const parts = manifest.chunks.map(c => reopened.get(c.hash)!);
+    expect(concat(parts)).toEqual(data);
+    expect(reopened.get(new Uint8Array(32))).toBeUndefined();
+
+    const { newChunks } = await buildManifest(
+      tree,
+      fromArray([data]),
+      reopened,
+      opts
+    );
+    expect(newChunks).toEqual([]);
+  });
+
+  it('should reject empty input', async () => {
+    await expect(
+      buildManifest(
+        new TernaryMeshTree(),
+        fromArray([]),
+        new MemoryChunkStore(),
+        opts
+      )
+    ).rejects.toThrow(/empty/);
+  });
+});
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../src/cli';
+
+describe('tmt CLI', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tmt-cli-'));
+    fs.mkdirSync(path.join(dir, 'data', 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'data', 'a.txt'), 'aaaaaaaaaa'); // 3 chunks
+    fs.writeFileSync(path.join(dir, 'data', 'sub', 'b.txt'), 'bbbb'); // 1 chunk
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const file = (name: string) => path.join(dir, name);
+
+  // tmt runs the CLI and returns its exit status and output.
+  async function tmt(...argv: string[]) {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await runCli(argv, {
+      out: text => out.push(text),
+      err: text => err.push(text),
+    });
+    return { code, out: out.join('\n'), err: err.join('\n') };
+  }
+
+  async function json(...argv: string[]) {
+    const res = await tmt(...argv, '--json');
+    return { code: res.code, body: JSON.parse(res.out) };
+  }
+
+  it('should build a directory and print the root', async () => {
+    const built = await json(
+      'build',
+      file('data'),
+      '--chunk-size',
+      '4',
+      '--out',
+      file('a.json')
+    );
+    expect(built.code).toBe(0);
+    expect(built.body.leafCount).toBe(4);
+    expect(built.body.files).toEqual([
+      { path: 'a.txt', start: 0, end: 3 },
+      { path: 'sub/b.txt', start: 3, end: 4 },
+    ]);
+
+    const root = await json('root', file('a.json'));
+    expect(root.body).toEqual({
+      root: built.body.root,
+      leafCount: 4,
+      hashScheme: 'tagged',
+      hasher: 'blake3',
+    });
+
+    const text = await tmt('root', file('a.json'));
+    expect(text.out.split('\n')[0]).toBe(`root ${built.body.root}`);
+  });
+
+  it('should issue and verify proofs', async () => {
+    await tmt('build', file('data'), '--chunk-size=4', '--out', file('p.json'));
+    const { body } = await json('root', file('p.json'));
+    const proved = await json(
+      'prove',
+      file('p.json'),
+      '3',
+      '--out',
+      file('3.bin')
+    );
+    expect(proved.code).toBe(0);
+    expect(proved.body.root).toBe(body.root);
+
+    fs.writeFileSync(file('chunk3'), 'bbbb');
+    fs.writeFileSync(file('wrong'), 'bbbc');
+    const ok = await json(
+      'verify',
+      body.root,
+      '3',
+      file('chunk3'),
+      file('3.bin')
+    );
+    expect(ok).toEqual({
+      code: 0,
+      body: { valid: true, index: 3, root: body.root, error: null },
+    });
+
+    const bad = await tmt(
+      'verify',
+      body.root,
+      '3',
+      file('wrong'),
+      file('3.bin')
+    );
+    expect(bad.code).toBe(1);
+    expect(bad.out).toBe('invalid');
+
+    const moved = await json(
+      'verify',
+      body.root,
+      '2',
+      file('chunk3'),
+      file('3.bin')
+    );
+    expect(moved.code).toBe(1);
+    expect(moved.body.error).toMatch(/proof is for leaf 3/);
+
+    const noProof = await json(
+      'verify',
+      body.root,
+      '3',
+      file('chunk3'),
+      file('none.bin')
+    );
+    expect(noProof.code).toBe(2);
+    expect(noProof.body.error).toMatch(/ENOENT/);
+  });
+
+  it('should diff snapshots', async () => {
+    fs.writeFileSync(file('one.bin'), 'abcdefghijkl');
+    fs.writeFileSync(file('two.bin'), 'abcdXfghijklmnop');
+    await tmt(
+      'build',
+      file('one.bin'),
+      '--chunk-size',
+      '4',
+      '--out',
+      file('1.json')
+    );
+    await tmt(
+      'build',
+      file('two.bin'),
+      '--chunk-size',
+      '4',
+      '--out',
+      file('2.json')
+    );
+
+    const same = await json('diff', file('1.json'), file('1.json'));
+    expect(same.code).toBe(0);
+    expect(same.body.same).toBe(true);
+
+    const changed = await json('diff', file('1.json'), file('2.json'));
+    expect(changed.code).toBe(1);
+    expect(changed.body.changed).toEqual([1]);
+    expect(changed.body.leafCountDelta).toBe(1);
+  });
+
+  it('should report usage errors with status 2', async () => {
+    expect((await tmt()).code).toBe(2);
+    expect((await tmt('--help')).code).toBe(0);
+
+    const unknown = await tmt('frobnicate');
+    expect(unknown.code).toBe(2);
+    expect(unknown.err).toMatch(/unknown command/);
+
+    const missing = await json('root', file('missing.json'));
+    expect(missing.code).toBe(2);
+    expect(missing.body.error).toMatch(/ENOENT/);
+
+    expect((await tmt('build', file('data'), '--chunk-size', '0')).code).toBe(
+      2
+    );
+    expect((await tmt('root', file('a.json'), '--bogus')).code).toBe(2);
+  });
+});
@@ -0,0 +1,61 @@
+import { RWLock } from '../src/lock';
+
+// gate returns a promise and the function that resolves it.
+function gate(): [Promise<void>, () => void] {
+  let open = () => {};
+  const p = new Promise<void>(resolve => (open = resolve));
+  return [p, open];
+}
+
+describe('RWLock', () => {
+  it('should let readers share the lock', async () => {
+    const lock = new RWLock();
+    const [wait, open] = gate();
+    let inside = 0;
+    let most = 0;
+    const reader = () =>
+      lock.read(async () => {
+        inside++;
+        most = Math.max(most, inside);
+        await wait;
+        inside--;
+      });
+    const done = Promise.all([reader(), reader(), reader()]);
+    await Promise.resolve();
+    open();
+    await done;
+    expect(most).toBe(3);
+  });
+
+  it('should serve waiters in order, a writer alone', async () => {
+    const lock = new RWLock();
+    const log: string[] = [];
+    const [wait, open] = gate();
+    const first = lock.read(async () => {
+      log.push('r1 start');
+      await wait;
+      log.push('r1 end');
+    });
+    const writer = lock.write(async () => {
+      log.push('w start');
+      await Promise.resolve();
+      log.push('w end');
+    });
+    const late = lock.read(() => log.push('r2'));
+    await Promise.resolve();
+    open();
+    await Promise.all([first, writer, late]);
+    expect(log).toEqual(['r1 start', 'r1 end', 'w start', 'w end', 'r2']);
+  });
+
+  it('should release the lock when fn throws', async () => {
+    const lock = new RWLock();
+    await expect(
+      lock.write(() => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(await lock.write(() => 1)).toBe(1);
+    expect(await lock.read(() => 2)).toBe(2);
+  });
+});
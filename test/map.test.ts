@@ -0,0 +1,227 @@
+import { TextEncoder } from 'util';
+import {
+  defaultConfig,
+  sha256Hasher,
+  TernaryMeshMap,
+  verifyAbsenceProof,
+  verifyKeyProof,
+} from '../src';
+
+const enc = new TextEncoder();
+
+async function fromEntries(entries: [string, string][]) {
+  const map = new TernaryMeshMap();
+  await map.batch(new Map(entries.map(([k, v]) => [k, enc.encode(v)])));
+  return map;
+}
+
+describe('TernaryMeshMap', () => {
+  it('should set, get and prove keys', async () => {
+    const map = new TernaryMeshMap();
+    await map.set('b', enc.encode('2'));
+    await map.set('a', enc.encode('1'));
+    await map.set('c', enc.encode('3'));
+    await map.set('b', enc.encode('two'));
+
+    expect(map.size()).toBe(3);
+    expect(map.get('b')).toEqual(enc.encode('two'));
+    expect(map.get('zz')).toBeUndefined();
+    expect(map.keys()).toEqual(['a', 'b', 'c'].map(k => enc.encode(k)));
+
+    const [root] = map.getRootHash();
+    const other = await fromEntries([
+      ['c', '3'],
+      ['a', '1'],
+      ['b', 'two'],
+    ]);
+    expect(other.getRootHash()[0]).toEqual(root);
+
+    const proof = map.proveKey('b');
+    expect(verifyKeyProof(root!, 'b', enc.encode('two'), proof)).toEqual([
+      true,
+      null,
+    ]);
+    expect(verifyKeyProof(root!, 'b', enc.encode('2'), proof)[0]).toBe(false);
+    expect(verifyKeyProof(root!, 'a', enc.encode('two'), proof)[0]).toBe(false);
+    expect(() => map.proveKey('d')).toThrow('key not found');
+  });
+
+  it('should apply overlapping changes one after another', async () => {
+    const map = await fromEntries([
+      ['d', '4'],
+      ['e', '5'],
+    ]);
+    const existed = await Promise.all([
+      map.set('b', enc.encode('2')),
+      map.set('c', enc.encode('3')),
+      map.delete('d'),
+      map.set('a', enc.encode('1')),
+      map.set('f', enc.encode('6')),
+      map.delete('d'),
+      map.set('e', enc.encode('five')),
+    ]);
+    expect(existed[2]).toBe(true);
+    expect(existed[5]).toBe(false);
+
+    const want: [string, string][] = [
+      ['a', '1'],
+      ['b', '2'],
+      ['c', '3'],
+      ['e', 'five'],
+      ['f', '6'],
+    ];
+    expect(map.keys()).toEqual(want.map(([k]) => enc.encode(k)));
+    const [root] = map.getRootHash();
+    for (const [k, v] of want) {
+      expect(verifyKeyProof(root!, k, enc.encode(v), map.proveKey(k))).toEqual([
+        true,
+        null,
+      ]);
+    }
+    expect(verifyAbsenceProof(root, 'd', map.proveAbsence('d'))).toEqual([
+      true,
+      null,
+    ]);
+    expect((await fromEntries(want)).getRootHash()[0]).toEqual(root);
+  });
+
+  it('should treat string keys as their UTF-8 bytes', async () => {
+    const map = new TernaryMeshMap();
+    await map.set('é😀', enc.encode('x'));
+    expect(map.get(enc.encode('é😀'))).toEqual(enc.encode('x'));
+    expect(map.has(new Uint8Array([0xc3, 0xa9, 0xf0, 0x9f, 0x98, 0x80]))).toBe(
+      true
+    );
+  });
+
+  it('should stay consistent through bulk changes', async () => {
+    const map = new TernaryMeshMap();
+    const model = new Map<string, string>();
+    let seed = 7;
+    const rand = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return seed % n;
+    };
+
+    for (let round = 0; round < 25; round++) {
+      const changes = new Map<string, Uint8Array | null>();
+      for (let i = 0, n = 1 + rand(6); i < n; i++) {
+        const key = `k${rand(30)}`;
+        if (rand(4) === 0) {
+          changes.set(key, null);
+          model.delete(key);
+        } else {
+          const value = `v${round}.${i}`;
+          changes.set(key, enc.encode(value));
+          model.set(key, value);
+        }
+      }
+      await map.batch(changes);
+
+      const expected = await fromEntries(Array.from(model.entries()));
+      expect(map.size()).toBe(model.size);
+      expect(map.getRootHash()).toEqual(expected.getRootHash());
+      const [root] = map.getRootHash();
+      model.forEach((value, key) => {
+        const proof = map.proveKey(key);
+        expect(verifyKeyProof(root!, key, enc.encode(value), proof)[0]).toBe(
+          true
+        );
+      });
+    }
+  });
+
+  it('should empty out and use the configured hasher', async () => {
+    const cfg = { ...defaultConfig(), hasher: sha256Hasher };
+    const map = new TernaryMeshMap(cfg);
+    await map.set('only', enc.encode('1'));
+    const [root] = map.getRootHash();
+    const proof = map.proveKey('only');
+    expect(
+      verifyKeyProof(
+        root!,
+        'only',
+        enc.encode('1'),
+        proof,
+        'tagged',
+        sha256Hasher
+      )
+    ).toEqual([true, null]);
+
+    expect(await map.delete('only')).toBe(true);
+    expect(await map.delete('only')).toBe(false);
+    expect(map.getRootHash()).toEqual([null, false]);
+    await map.set('again', enc.encode('2'));
+    expect(map.size()).toBe(1);
+  });
+});
+
+describe('absence proofs', () => {
+  const keys = ['b', 'd', 'f', 'h', 'j', 'l', 'n'];
+
+  it('should prove keys between, before and after the entries', async () => {
+    for (let n = 1; n <= keys.length; n++) {
+      const map = await fromEntries(keys.slice(0, n).map(k => [k, `v${k}`]));
+      const [root] = map.getRootHash();
+      const last = keys[n - 1];
+      for (const key of ['a', 'c', 'e', 'i', `${last}z`]) {
+        const proof = map.proveAbsence(key);
+        expect(verifyAbsenceProof(root, key, proof)).toEqual([true, null]);
+      }
+
+      const after = map.proveAbsence(`${last}z`);
+      expect(after.right).toBeNull();
+      expect(after.left!.key).toEqual(enc.encode(last));
+      const before = map.proveAbsence('a');
+      expect(before.left).toBeNull();
+      expect(before.right!.proof.leafIndex).toBe(0);
+    }
+  });
+
+  it('should cover the empty map', async () => {
+    const map = new TernaryMeshMap();
+    const proof = map.proveAbsence('x');
+    expect(proof).toEqual({ left: null, right: null });
+    expect(verifyAbsenceProof(null, 'x', proof)).toEqual([true, null]);
+
+    const full = await fromEntries([['x', '1']]);
+    expect(verifyAbsenceProof(full.getRootHash()[0], 'x', proof)[0]).toBe(
+      false
+    );
+  });
+
+  it('should reject present keys and forged neighbours', async () => {
+    const map = await fromEntries(keys.map(k => [k, `v${k}`]));
+    const [root] = map.getRootHash();
+    expect(() => map.proveAbsence('d')).toThrow('key is present');
+
+    // neighbours that skip an entry
+    const gap = {
+      left: map.proveAbsence('c').left,
+      right: map.proveAbsence('g').right,
+    };
+    expect(verifyAbsenceProof(root, 'e', gap)[1]!.message).toContain(
+      'not adjacent'
+    );
+
+    // a key outside the proven interval
+    const proof = map.proveAbsence('e');
+    expect(verifyAbsenceProof(root, 'g', proof)[0]).toBe(false);
+
+    // dropping a neighbour at either side
+    expect(
+      verifyAbsenceProof(root, 'e', { ...proof, right: null })[1]!.message
+    ).toContain('not the last entry');
+    expect(
+      verifyAbsenceProof(root, 'e', { ...proof, left: null })[1]!.message
+    ).toContain('not the first entry');
+
+    // a neighbour with a different value
+    const forged = {
+      ...proof,
+      left: { ...proof.left!, value: enc.encode('other') },
+    };
+    expect(verifyAbsenceProof(root, 'e', forged)[0]).toBe(false);
+    expect(verifyAbsenceProof(null, 'e', proof)[0]).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { formatPrometheus, Histogram } from '../src';
+
+describe('Histogram', () => {
+  it('should count observations into cumulative buckets', () => {
+    const h = new Histogram([1, 5, 10]);
+    [0.5, 1, 3, 7, 20].forEach(v => h.observe(v));
+    expect(h.count).toBe(5);
+    expect(h.sum).toBe(31.5);
+    expect(h.buckets()).toEqual([
+      { le: 1, count: 2 },
+      { le: 5, count: 3 },
+      { le: 10, count: 4 },
+      { le: Infinity, count: 5 },
+    ]);
+    h.reset();
+    expect(h.buckets().map(b => b.count)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should estimate quantiles within buckets', () => {
+    const h = new Histogram([1, 2, 4]);
+    expect(h.quantile(0.5)).toBe(0);
+    for (let i = 0; i < 4; i++) {
+      h.observe(0.5);
+      h.observe(3);
+    }
+    // half the observations are in (0, 1]; the rest in (2, 4]
+    expect(h.quantile(0.5)).toBe(1);
+    expect(h.quantile(0.75)).toBe(3);
+    expect(h.quantile(1)).toBe(4);
+
+    h.observe(100); // beyond the last bound
+    expect(h.quantile(1)).toBe(4);
+  });
+});
+
+describe('formatPrometheus', () => {
+  it('should render counters, gauges and histograms', () => {
+    const h = new Histogram([0.1, 1]);
+    h.observe(0.05);
+    h.observe(0.5);
+    const text = formatPrometheus(
+      [
+        { name: 'x_total', help: 'Things.', type: 'counter', value: 3 },
+        { name: 'x_size', help: 'Size.', type: 'gauge', value: 1.5 },
+        {
+          name: 'x_seconds',
+          help: 'Latency.',
+          type: 'histogram',
+          histogram: h,
+        },
+      ],
+      { job: 'a"b\\c' }
+    );
+    expect(text).toBe(
+      [
+        '# HELP x_total Things.',
+        '# TYPE x_total counter',
+        'x_total{job="a\\"b\\\\c"} 3',
+        '# HELP x_size Size.',
+        '# TYPE x_size gauge',
+        'x_size{job="a\\"b\\\\c"} 1.5',
+        '# HELP x_seconds Latency.',
+        '# TYPE x_seconds histogram',
+        'x_seconds_bucket{job="a\\"b\\\\c",le="0.1"} 1',
+        'x_seconds_bucket{job="a\\"b\\\\c",le="1"} 2',
+        'x_seconds_bucket{job="a\\"b\\\\c",le="+Inf"} 2',
+        'x_seconds_sum{job="a\\"b\\\\c"} 0.55',
+        'x_seconds_count{job="a\\"b\\\\c"} 2',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('should omit braces without labels', () => {
+    const text = formatPrometheus([
+      { name: 'up', help: 'Up.', type: 'gauge', value: 1 },
+    ]);
+    expect(text).toBe('# HELP up Up.\n# TYPE up gauge\nup 1\n');
+  });
+});
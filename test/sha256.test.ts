@@ -0,0 +1,49 @@
+import { TextEncoder } from 'util';
+import { sha256, sha256Portable } from '../src/sha256';
+import { hashToHex } from '../src';
+
+describe('sha256', () => {
+  const enc = new TextEncoder();
+  const vectors: [Uint8Array, string][] = [
+    [
+      enc.encode(''),
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855',
+    ],
+    [
+      enc.encode('abc'),
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    ],
+    [
+      enc.encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'),
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    ],
+    [
+      new Uint8Array(1000000).fill(0x61),
+      'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0',
+    ],
+  ];
+
+  it('should match the FIPS 180-4 test vectors', () => {
+    for (const [data, hex] of vectors) {
+      expect(hashToHex(sha256(data))).toBe(hex);
+      expect(hashToHex(sha256Portable(data))).toBe(hex);
+    }
+  });
+
+  it('should agree with the Node digest around block boundaries', () => {
+    for (let n = 0; n < 200; n++) {
+      const data = Uint8Array.from({ length: n }, (_, i) => (i * 7 + n) & 0xff);
+      expect(sha256Portable(data)).toEqual(sha256(data));
+    }
+  });
+
+  it('should fall back to the portable digest in a browser bundle', () => {
+    // bundlers map crypto to an empty module (see "browser" in package.json)
+    jest.isolateModules(() => {
+      jest.doMock('crypto', () => ({}));
+      const bundled: typeof import('../src/sha256') = require('../src/sha256');
+      const [data, hex] = vectors[1];
+      expect(hashToHex(bundled.sha256(data))).toBe(hex);
+    });
+  });
+});
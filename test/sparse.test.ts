@@ -0,0 +1,139 @@
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  defaultSparseOptions,
+  SparseTernaryTree,
+  sparseLeaf,
+  TMTError,
+  toVerificationProof,
+  verifyProofAgainstRoot,
+  verifySparseProof,
+} from '../src';
+
+describe('SparseTernaryTree', () => {
+  const enc = new TextEncoder();
+  const deep = { ...defaultSparseOptions(), depth: 100 };
+
+  it('should set, get and delete values', () => {
+    const tree = new SparseTernaryTree();
+    const empty = tree.getRootHash();
+    tree.set(5, enc.encode('five'));
+    tree.set('alice', enc.encode('100'));
+    expect(tree.size()).toBe(2);
+    expect(tree.get(5)).toEqual(enc.encode('five'));
+    expect(tree.get('alice')).toEqual(enc.encode('100'));
+    expect(tree.get('bob')).toBeUndefined();
+    expect(tree.getRootHash()).not.toEqual(empty);
+
+    expect(tree.delete('alice')).toBe(true);
+    expect(tree.delete('alice')).toBe(false);
+    tree.set(5, new Uint8Array(0));
+    expect(tree.size()).toBe(0);
+    expect(tree.getRootHash()).toEqual(empty);
+  });
+
+  it('should not depend on insertion order', () => {
+    const a = new SparseTernaryTree(deep);
+    const b = new SparseTernaryTree(deep);
+    const keys = ['x', 'y', 'z', 'w'];
+    keys.forEach(k => a.set(k, enc.encode(k)));
+    keys.reverse().forEach(k => b.set(k, enc.encode(k)));
+    expect(a.getRootHash()).toEqual(b.getRootHash());
+  });
+
+  it('should match a dense tree over the same leaves', async () => {
+    const opts = { ...defaultSparseOptions(), depth: 2 };
+    const sparse = new SparseTernaryTree(opts);
+    const blocks = Array.from({ length: 7 }, (_, i) => enc.encode(`b${i}`));
+    blocks.forEach((b, i) => sparse.set(i, b));
+
+    // the dense tree pads leaves 7 and 8 with empty leaves
+    const dense = new TernaryMeshTree();
+    await dense.build(blocks.map((b, i) => sparseLeaf(i, b)));
+    expect(sparse.getRootHash()).toEqual(dense.getRootHash()[0]);
+  });
+
+  it('should prove inclusion and absence with compressed proofs', () => {
+    const tree = new SparseTernaryTree(deep);
+    for (let i = 0; i < 20; i++) {
+      tree.set(`acct${i}`, enc.encode(`${i * 10}`));
+    }
+    const root = tree.getRootHash();
+
+    const proof = tree.prove('acct7');
+    // only the siblings near the root are non-default
+    expect(proof.siblings.length).toBeLessThan(20);
+    expect(tree.verify('acct7', enc.encode('70'), proof)).toEqual([true, null]);
+    expect(
+      verifySparseProof(root, 'acct7', enc.encode('70'), proof, deep)
+    ).toEqual([true, null]);
+    expect(
+      verifySparseProof(root, 'acct7', enc.encode('71'), proof, deep)[0]
+    ).toBe(false);
+
+    const absent = tree.prove('nobody');
+    expect(tree.verify('nobody', null, absent)).toEqual([true, null]);
+    expect(tree.verify('nobody', enc.encode('1'), absent)[0]).toBe(false);
+
+    const [ok, err] = tree.verify('acct8', enc.encode('70'), proof);
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(TMTError);
+
+    const tampered = { ...proof, siblings: proof.siblings.slice(1) };
+    expect(tree.verify('acct7', enc.encode('70'), tampered)[0]).toBe(false);
+  });
+
+  it('should not accept a proof for another key on the same path', () => {
+    const opts = { ...defaultSparseOptions(), depth: 3 };
+    const tree = new SparseTernaryTree(opts);
+    tree.set('alice', enc.encode('10'));
+    const proof = tree.prove('alice');
+    expect(tree.verify('alice', enc.encode('10'), proof)).toEqual([true, null]);
+
+    // mallory98 lands on alice's leaf in a depth 3 tree
+    const other = new SparseTernaryTree(opts);
+    expect(other.prove('mallory98').path).toEqual(proof.path);
+    expect(tree.verify('mallory98', enc.encode('10'), proof)).toEqual([
+      false,
+      null,
+    ]);
+  });
+
+  it('should expand proofs for verifyProofAgainstRoot', () => {
+    const tree = new SparseTernaryTree();
+    tree.set(42, enc.encode('answer'));
+    tree.set(1e12, enc.encode('far'));
+    const proof = toVerificationProof(tree.prove(42));
+    expect(proof.leafIndex).toBe(42);
+    expect(proof.pathLength).toBe(33);
+    const leaf = sparseLeaf(42, enc.encode('answer'));
+    expect(verifyProofAgainstRoot(proof, leaf, tree.getRootHash())).toEqual([
+      true,
+      null,
+    ]);
+
+    const big = new SparseTernaryTree(deep);
+    big.set('k', enc.encode('v'));
+    expect(() => toVerificationProof(big.prove('k'), deep)).toThrow(TMTError);
+  });
+
+  it('should reject bad keys, depths and colliding keys', () => {
+    expect(() => new SparseTernaryTree({ ...deep, depth: 0 })).toThrow(
+      TMTError
+    );
+    expect(() => new SparseTernaryTree({ ...deep, depth: 162 })).toThrow(
+      TMTError
+    );
+
+    const tiny = new SparseTernaryTree({ ...defaultSparseOptions(), depth: 1 });
+    expect(() => tiny.set(3, enc.encode('x'))).toThrow(/invalid key/);
+    expect(() => tiny.set(-1, enc.encode('x'))).toThrow(TMTError);
+    expect(() => tiny.set('', enc.encode('x'))).toThrow(/invalid key/);
+
+    // four keys cannot fit in three leaves
+    expect(() => {
+      for (const k of ['a', 'b', 'c', 'd']) {
+        tiny.set(k, enc.encode(k));
+      }
+    }).toThrow(/key collision/);
+  });
+});
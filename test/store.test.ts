@@ -0,0 +1,272 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  defaultConfig,
+  FileNodeStore,
+  MemoryNodeStore,
+  NodeStore,
+  StoreOp,
+  verifyProofAgainstRoot,
+} from '../src';
+
+// RecordingStore counts the writes of each batch.
+class RecordingStore extends MemoryNodeStore {
+  batches: StoreOp[][] = [];
+
+  batch(ops: StoreOp[]): void {
+    this.batches.push(ops);
+    super.batch(ops);
+  }
+}
+
+describe('node stores', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 30 }, (_, i) => enc.encode(`s${i}`));
+  const dirs: string[] = [];
+
+  function tempDir(): string {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tmt-store-'));
+    dirs.push(dir);
+    return dir;
+  }
+
+  function segments(dir: string): string[] {
+    return fs.readdirSync(dir).sort();
+  }
+
+  afterAll(() => {
+    for (const dir of dirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  async function reference() {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    await tree.update(4, enc.encode('changed'));
+    await tree.append(enc.encode('s30'));
+    return tree;
+  }
+
+  it('should persist only the changed path on update', async () => {
+    const store = new RecordingStore();
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    store.batches = [];
+
+    await tree.update(4, enc.encode('changed'));
+    expect(store.batches).toHaveLength(1);
+    const types = store.batches[0].map(op => op.type);
+    // the leaf and its ancestors up to the root, its data and the metadata
+    expect(types.filter(t => t === 'node')).toHaveLength(tree.getHeight());
+    expect(types.filter(t => t === 'leafData')).toHaveLength(1);
+    expect(types.filter(t => t === 'meta')).toHaveLength(1);
+  });
+
+  it('should resume a tree from a memory store', async () => {
+    const store: NodeStore = new MemoryNodeStore();
+    const cfg = { ...defaultConfig(), store };
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(blocks);
+    await tree.update(4, enc.encode('changed'));
+    await tree.append(enc.encode('s30'));
+
+    const resumed = new TernaryMeshTree(cfg);
+    const expected = await reference();
+    expect(resumed.getRootHash()).toEqual(expected.getRootHash());
+    expect(resumed.getLeafCount()).toBe(31);
+    expect(resumed.generateProof(30)).toEqual(expected.generateProof(30));
+    expect(resumed.validate().valid).toBe(true);
+  });
+
+  it('should keep a tree in segment files and reopen it', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir);
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    await tree.update(4, enc.encode('changed'));
+    await tree.append(enc.encode('s30'));
+    store.close();
+
+    const reopened = new FileNodeStore(dir);
+    const resumed = new TernaryMeshTree({
+      ...defaultConfig(),
+      store: reopened,
+    });
+    const expected = await reference();
+    const [root] = expected.getRootHash();
+    expect(resumed.getRootHash()[0]).toEqual(root);
+    expect(resumed.validate().valid).toBe(true);
+    expect(resumed.serialize()).toEqual(expected.serialize());
+
+    const proof = resumed.generateProof(4);
+    expect(
+      verifyProofAgainstRoot(proof, enc.encode('changed'), root!)
+    ).toEqual([true, null]);
+    expect(await resumed.verify(30, enc.encode('s30'))).toEqual([true, null]);
+    reopened.close();
+  });
+
+  it('should drop a batch cut short by a crash', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir);
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const [before] = tree.getRootHash();
+    const file = path.join(dir, segments(dir)[0]);
+    const size = fs.statSync(file).size;
+
+    await tree.update(0, enc.encode('lost'));
+    store.close();
+    fs.truncateSync(file, fs.statSync(file).size - 3);
+
+    const reopened = new FileNodeStore(dir);
+    const resumed = new TernaryMeshTree({
+      ...defaultConfig(),
+      store: reopened,
+    });
+    expect(resumed.getRootHash()[0]).toEqual(before);
+    expect(resumed.validate().valid).toBe(true);
+    expect(fs.statSync(file).size).toBe(size);
+
+    // the store stays writable after recovery
+    await resumed.update(0, enc.encode('kept'));
+    reopened.close();
+    const last = new FileNodeStore(dir);
+    const again = new TernaryMeshTree({ ...defaultConfig(), store: last });
+    expect(await again.verify(0, enc.encode('kept'))).toEqual([true, null]);
+    last.close();
+  });
+
+  it('should not commit the frames of a failed batch', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir);
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const file = path.join(dir, segments(dir)[0]);
+    const size = fs.statSync(file).size;
+
+    // a frame fills up and is written before the meta record fails
+    const meta = store.getMeta()!;
+    Object.defineProperty(meta, 'hasher', {
+      get: () => {
+        throw new Error('disk full');
+      },
+    });
+    expect(() =>
+      store.batch([
+        { type: 'leafData', slot: 100, data: new Uint8Array(5 << 20) },
+        { type: 'meta', meta },
+      ])
+    ).toThrow('disk full');
+    expect(fs.statSync(file).size).toBe(size);
+    expect(store.getLeafData(100)).toBeUndefined();
+
+    await tree.update(0, enc.encode('kept'));
+    store.close();
+
+    const reopened = new FileNodeStore(dir);
+    const resumed = new TernaryMeshTree({
+      ...defaultConfig(),
+      store: reopened,
+    });
+    expect(reopened.getLeafData(100)).toBeUndefined();
+    expect(resumed.validate().valid).toBe(true);
+    expect(await resumed.verify(0, enc.encode('kept'))).toEqual([true, null]);
+    reopened.close();
+  });
+
+  it('should roll over to new segments and clear them on rebuild', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir, { segmentSize: 512 });
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    for (let i = 0; i < 5; i++) {
+      await tree.update(i, enc.encode(`u${i}`));
+    }
+    expect(segments(dir).length).toBeGreaterThan(1);
+    const [root] = tree.getRootHash();
+    store.close();
+
+    const reopened = new FileNodeStore(dir, { segmentSize: 512 });
+    const resumed = new TernaryMeshTree({
+      ...defaultConfig(),
+      store: reopened,
+    });
+    expect(resumed.getRootHash()[0]).toEqual(root);
+    expect(resumed.validate().valid).toBe(true);
+
+    await resumed.build(blocks.slice(0, 3));
+    expect(segments(dir)).toEqual(['segment-000001.log']);
+    expect(resumed.getLeafCount()).toBe(3);
+    reopened.close();
+  });
+
+  it('should keep one tree or the other when a rebuild is cut short', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir, { segmentSize: 512 });
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    for (let i = 0; i < 5; i++) {
+      await tree.update(i, enc.encode(`u${i}`));
+    }
+    const [before] = tree.getRootHash();
+    store.close();
+
+    // a crash while the new tree was being written
+    fs.writeFileSync(path.join(dir, 'segment-fresh.log.tmp'), 'partial');
+    let reopened = new FileNodeStore(dir, { segmentSize: 512 });
+    let resumed = new TernaryMeshTree({ ...defaultConfig(), store: reopened });
+    expect(resumed.getRootHash()[0]).toEqual(before);
+    expect(segments(dir)).not.toContain('segment-fresh.log.tmp');
+    reopened.close();
+
+    // a crash after the new tree was complete, before the old one was gone
+    const other = tempDir();
+    const rebuilt = new FileNodeStore(other);
+    const next = new TernaryMeshTree({ ...defaultConfig(), store: rebuilt });
+    await next.build(blocks.slice(0, 3));
+    const [after] = next.getRootHash();
+    rebuilt.close();
+    fs.copyFileSync(
+      path.join(other, 'segment-000001.log'),
+      path.join(dir, 'segment-fresh.log')
+    );
+    expect(segments(dir).length).toBeGreaterThan(2);
+
+    reopened = new FileNodeStore(dir, { segmentSize: 512 });
+    resumed = new TernaryMeshTree({ ...defaultConfig(), store: reopened });
+    expect(resumed.getRootHash()[0]).toEqual(after);
+    expect(resumed.validate().valid).toBe(true);
+    expect(segments(dir)).toEqual(['segment-000001.log']);
+    reopened.close();
+  });
+
+  it('should resume hash-only trees with their hasher and scheme', async () => {
+    const dir = tempDir();
+    const store = new FileNodeStore(dir);
+    const cfg = {
+      ...defaultConfig(),
+      hashScheme: 'legacy' as const,
+      retainLeafData: false,
+      store,
+    };
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    store.close();
+
+    const reopened = new FileNodeStore(dir);
+    const resumed = new TernaryMeshTree({
+      ...defaultConfig(),
+      store: reopened,
+    });
+    expect(resumed.getHashScheme()).toBe('legacy');
+    expect(resumed.retainsLeafData()).toBe(false);
+    expect(resumed.getRootHash()[0]).toEqual(root);
+    expect(resumed.validate().valid).toBe(true);
+    reopened.close();
+  });
+});
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  chunkStream,
+  defaultConfig,
+  FileNodeStore,
+  toAsyncIterable,
+} from '../src';
+
+async function* fromArray(blocks: Uint8Array[]): AsyncGenerator<Uint8Array> {
+  for (const b of blocks) {
+    yield b;
+  }
+}
+
+async function collect(source: AsyncIterable<Uint8Array>) {
+  const out: Uint8Array[] = [];
+  for await (const b of source) {
+    out.push(b);
+  }
+  return out;
+}
+
+describe('buildFromStream', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 30 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should match build for every size', async () => {
+    for (let n = 1; n <= blocks.length; n++) {
+      const expected = new TernaryMeshTree();
+      await expected.build(blocks.slice(0, n));
+
+      const tree = new TernaryMeshTree();
+      await tree.buildFromStream(fromArray(blocks.slice(0, n)));
+      expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+      expect(tree.getLeafCount()).toBe(n);
+      expect(tree.getHeight()).toBe(expected.getHeight());
+    }
+  });
+
+  it('should support proofs, updates and appends afterwards', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.buildFromStream(fromArray(blocks.slice(0, 10)));
+    await tree.update(4, enc.encode('x'));
+    await tree.appendBatch(blocks.slice(10, 14));
+    expect(tree.validate().valid).toBe(true);
+
+    const expected = new TernaryMeshTree();
+    const data = blocks.slice(0, 14);
+    data[4] = enc.encode('x');
+    await expected.build(data);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+    expect(tree.generateProof(12)).toEqual(expected.generateProof(12));
+  });
+
+  it('should reject an empty stream', async () => {
+    const tree = new TernaryMeshTree();
+    await expect(tree.buildFromStream(fromArray([]))).rejects.toThrow(
+      'empty data'
+    );
+  });
+
+  it('should keep the previous tree when the stream fails', async () => {
+    async function* failing(): AsyncGenerator<Uint8Array> {
+      yield blocks[20];
+      yield blocks[21];
+      throw new Error('connection reset');
+    }
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tmt-stream-'));
+    try {
+      const store = new FileNodeStore(dir);
+      const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+      await tree.build(blocks.slice(0, 10));
+      const [root] = tree.getRootHash();
+
+      await expect(tree.buildFromStream(failing())).rejects.toThrow(
+        'connection reset'
+      );
+      await expect(tree.buildFromStream(fromArray([]))).rejects.toThrow(
+        'empty data'
+      );
+
+      expect(tree.getRootHash()[0]).toEqual(root);
+      expect(tree.getLeafCount()).toBe(10);
+      expect(tree.validate().valid).toBe(true);
+      expect(await tree.verify(3, blocks[3])).toEqual([true, null]);
+      store.close();
+
+      const reopened = new FileNodeStore(dir);
+      const resumed = new TernaryMeshTree({
+        ...defaultConfig(),
+        store: reopened,
+      });
+      expect(resumed.getRootHash()[0]).toEqual(root);
+      expect(resumed.validate().valid).toBe(true);
+      reopened.close();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('chunkStream', () => {
+  const bytes = Uint8Array.from({ length: 100 }, (_, i) => i);
+
+  it('should split a Node stream into fixed-size blocks', async () => {
+    const parts = [bytes.slice(0, 7), bytes.slice(7, 64), bytes.slice(64)];
+    const chunks = await collect(chunkStream(Readable.from(parts), 16));
+    expect(chunks.map(c => c.length)).toEqual([16, 16, 16, 16, 16, 16, 4]);
+    expect(chunks[6]).toEqual(bytes.slice(96));
+
+    const tree = new TernaryMeshTree();
+    await tree.buildFromStream(chunkStream(Readable.from(parts), 16));
+    const expected = new TernaryMeshTree();
+    await expected.build(chunks);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+  });
+
+  it('should read from a ReadableStream-like reader', async () => {
+    const parts = [bytes.slice(0, 50), bytes.slice(50)];
+    let released = false;
+    const stream = {
+      getReader: () => ({
+        read: async () =>
+          parts.length > 0
+            ? { done: false, value: parts.shift() }
+            : { done: true, value: undefined },
+        releaseLock: () => {
+          released = true;
+        },
+      }),
+    };
+    const chunks = await collect(
+      chunkStream((stream as unknown) as ReadableStream<Uint8Array>, 40)
+    );
+    expect(chunks.map(c => c.length)).toEqual([40, 40, 20]);
+    expect(released).toBe(true);
+  });
+
+  it('should pass async iterables through toAsyncIterable', async () => {
+    expect(await collect(toAsyncIterable(fromArray([])))).toEqual([]);
+  });
+
+  it('should reject bad chunk sizes', async () => {
+    await expect(collect(chunkStream(fromArray([bytes]), 0))).rejects.toThrow(
+      'invalid chunk size'
+    );
+  });
+});
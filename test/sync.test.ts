@@ -0,0 +1,117 @@
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  defaultConfig,
+  diffRemote,
+  levelSizes,
+  serveSync,
+  SyncRequest,
+  SyncTransport,
+  TMTError,
+} from '../src';
+
+describe('tree diff', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 100 }, (_, i) => enc.encode(`d${i}`));
+
+  async function treeOf(data: Uint8Array[], cfg = defaultConfig()) {
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(data);
+    return tree;
+  }
+
+  // transportTo serves a peer in-process and records the requests.
+  function transportTo(peer: TernaryMeshTree, log: SyncRequest[] = []) {
+    const handle = serveSync(peer);
+    const send: SyncTransport = async req => {
+      log.push(req);
+      return handle(req);
+    };
+    return send;
+  }
+
+  it('should find changed leaves', async () => {
+    const a = await treeOf(blocks);
+    const b = await treeOf(blocks);
+    expect(a.diff(b)).toEqual({ changed: [], leafCountDelta: 0 });
+
+    await b.batchUpdate(
+      new Map([
+        [3, enc.encode('x')],
+        [57, enc.encode('y')],
+        [99, enc.encode('z')],
+      ])
+    );
+    expect(a.diff(b)).toEqual({ changed: [3, 57, 99], leafCountDelta: 0 });
+    expect(b.diff(a).changed).toEqual([3, 57, 99]);
+  });
+
+  it('should compare trees of different sizes', async () => {
+    const short = await treeOf(blocks.slice(0, 10));
+    const long = await treeOf(blocks);
+    expect(short.diff(long)).toEqual({ changed: [], leafCountDelta: 90 });
+    expect(long.diff(short)).toEqual({ changed: [], leafCountDelta: -90 });
+
+    await long.update(9, enc.encode('x'));
+    await long.update(40, enc.encode('y'));
+    expect(short.diff(long)).toEqual({ changed: [9], leafCountDelta: 90 });
+  });
+
+  it('should return node hashes by level and range', async () => {
+    const tree = await treeOf(blocks);
+    const sizes = levelSizes(100);
+    expect(sizes).toEqual([102, 34, 12, 4, 2, 1]);
+    expect(tree.getNodeHashes(sizes.length - 1, { start: 0, end: 1 })).toEqual([
+      tree.getRootHash()[0],
+    ]);
+    const leaves = tree.getNodeHashes(0, { start: 0, end: 102 });
+    expect(leaves).toHaveLength(102);
+    expect(tree.getNodeHashes(0, { start: 40, end: 43 })).toEqual(
+      leaves.slice(40, 43)
+    );
+    expect(tree.getNodeHashes(2, { start: 5, end: 5 })).toEqual([]);
+    expect(() => tree.getNodeHashes(0, { start: 0, end: 103 })).toThrow(
+      TMTError
+    );
+    expect(() => tree.getNodeHashes(6, { start: 0, end: 1 })).toThrow(TMTError);
+  });
+
+  it('should diff against a remote peer level by level', async () => {
+    const local = await treeOf(blocks.slice(0, 80));
+    const peer = await treeOf(blocks);
+    await peer.batchUpdate(
+      new Map([
+        [0, enc.encode('x')],
+        [42, enc.encode('y')],
+        [90, enc.encode('z')],
+      ])
+    );
+
+    const log: SyncRequest[] = [];
+    const result = await diffRemote(local, transportTo(peer, log));
+    expect(result).toEqual(local.diff(peer));
+    expect(result).toEqual({ changed: [0, 42], leafCountDelta: 20 });
+    // a summary, then one request per level of the shorter tree
+    expect(log).toHaveLength(1 + levelSizes(80).length);
+
+    const same = await diffRemote(peer, transportTo(peer));
+    expect(same).toEqual({ changed: [], leafCountDelta: 0 });
+  });
+
+  it('should report peer errors and mismatched hashing', async () => {
+    const local = await treeOf(blocks);
+    const legacy = await treeOf(blocks, {
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await expect(diffRemote(local, transportTo(legacy))).rejects.toThrow(
+      TMTError
+    );
+    expect(() => local.diff(legacy)).toThrow(TMTError);
+
+    const empty = serveSync(new TernaryMeshTree());
+    expect(empty({ type: 'summary' }).type).toBe('error');
+    await expect(diffRemote(local, async req => empty(req))).rejects.toThrow(
+      /sync error/
+    );
+  });
+});
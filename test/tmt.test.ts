@@ -1,5 +1,29 @@
 import { TextEncoder } from 'util';
-import TernaryMeshTree from '../src';
+import TernaryMeshTree, {
+  base64ToBytes,
+  bytesToBase64,
+  computeHash,
+  decodeProof,
+  defaultConfig,
+  digestHasher,
+  encodeProof,
+  hashLeaf,
+  hashNode,
+  hashToHex,
+  hexToBytes,
+  MemoryNodeStore,
+  serveSync,
+  sha256,
+  sha256Hasher,
+  StoreOp,
+  TMTError,
+  TMTValidationError,
+  verifyConsistencyProof,
+  verifyMultiProof,
+  verifyProofAgainstRoot,
+  verifyRangeProof,
+  verifyRemovalProof,
+} from '../src';
 
 describe('TernaryMeshTree', () => {
   it('should build a tree correctly', async () => {
@@ -84,4 +108,1329 @@ describe('TernaryMeshTree', () => {
     expect(ok).toBe(true);
     expect(err).toBeNull();
   });
-});
\ No newline at end of file
+});
+
+describe('verifyProofAgainstRoot', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 14 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should verify every proof using only the root hash', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    for (let i = 0; i < blocks.length; i++) {
+      const proof = tree.generateProof(i);
+      const [ok, err] = verifyProofAgainstRoot(proof, blocks[i], root!);
+      expect(err).toBeNull();
+      expect(ok).toBe(true);
+    }
+  });
+
+  it('should reject wrong data and a wrong root', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const proof = tree.generateProof(4);
+
+    expect(verifyProofAgainstRoot(proof, enc.encode('nope'), root!)).toEqual([
+      false,
+      null,
+    ]);
+    const otherRoot = new Uint8Array(root!);
+    otherRoot[0] ^= 1;
+    expect(verifyProofAgainstRoot(proof, blocks[4], otherRoot)[0]).toBe(false);
+  });
+
+  it('should reject proofs whose index does not match the path', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const proof = { ...tree.generateProof(4), leafIndex: 5 };
+
+    const [ok, err] = verifyProofAgainstRoot(proof, blocks[4], root!);
+    expect(ok).toBe(false);
+    expect(err).not.toBeNull();
+  });
+
+  it('should reject malformed steps', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const proof = tree.generateProof(0);
+    const bad = {
+      ...proof,
+      steps: proof.steps.map((s, i) => (i === 0 ? { ...s, pos: 3 } : s)),
+    };
+
+    const [ok, err] = verifyProofAgainstRoot(bad, blocks[0], root!);
+    expect(ok).toBe(false);
+    expect(err).not.toBeNull();
+  });
+});
+
+describe('hash schemes', () => {
+  const enc = new TextEncoder();
+  const blocks = [enc.encode('a'), enc.encode('b'), enc.encode('c')];
+
+  it('should not let a leaf collide with an internal node', () => {
+    const children = blocks.map(b => hashLeaf(b));
+    const forged = new Uint8Array(96);
+    children.forEach((h, i) => forged.set(h, i * 32));
+    expect(hashLeaf(forged)).not.toEqual(hashNode(children));
+    expect(hashLeaf(forged, 'legacy')).toEqual(hashNode(children, 'legacy'));
+  });
+
+  it('should produce different roots for different schemes', async () => {
+    const tagged = new TernaryMeshTree();
+    const legacy = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await tagged.build(blocks);
+    await legacy.build(blocks);
+    expect(tagged.getRootHash()[0]).not.toEqual(legacy.getRootHash()[0]);
+
+    const [ok] = verifyProofAgainstRoot(
+      legacy.generateProof(1),
+      blocks[1],
+      legacy.getRootHash()[0]!,
+      'legacy'
+    );
+    expect(ok).toBe(true);
+  });
+
+  it('should record the scheme when serializing', async () => {
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await tree.build(blocks);
+    const restored = TernaryMeshTree.deserialize(tree.serialize());
+    expect(restored.getHashScheme()).toBe('legacy');
+    expect(restored.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+    const [ok] = await restored.verify(2, blocks[2]);
+    expect(ok).toBe(true);
+  });
+
+  it('should load blobs without a scheme as legacy', async () => {
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await tree.build(blocks);
+    const blob = JSON.parse(tree.serialize());
+    delete blob.hashScheme;
+
+    const restored = TernaryMeshTree.deserialize(JSON.stringify(blob));
+    expect(restored.getHashScheme()).toBe('legacy');
+    await restored.update(0, enc.encode('a2'));
+    await tree.update(0, enc.encode('a2'));
+    expect(restored.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+  });
+});
+
+describe('append', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 40 }, (_, i) => enc.encode(`block${i}`));
+
+  const rootOf = async (data: Uint8Array[]) => {
+    const tree = new TernaryMeshTree();
+    await tree.build(data);
+    return tree.getRootHash()[0];
+  };
+
+  it('should match a fresh build after each append', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build([blocks[0]]);
+    for (let i = 1; i < blocks.length; i++) {
+      expect(await tree.append(blocks[i])).toBe(i);
+      expect(tree.getLeafCount()).toBe(i + 1);
+      expect(tree.getRootHash()[0]).toEqual(
+        await rootOf(blocks.slice(0, i + 1))
+      );
+    }
+  });
+
+  it('should match a fresh build after appendBatch', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 5));
+    expect(await tree.appendBatch(blocks.slice(5))).toBe(5);
+    expect(tree.getRootHash()[0]).toEqual(await rootOf(blocks));
+    expect(tree.getHeight()).toBe(5);
+  });
+
+  it('should build an empty tree on first append', async () => {
+    const tree = new TernaryMeshTree();
+    expect(await tree.append(blocks[0])).toBe(0);
+    expect(tree.getRootHash()[0]).toEqual(await rootOf([blocks[0]]));
+  });
+
+  it('should keep proofs, updates and serialization working', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 2));
+    await tree.appendBatch(blocks.slice(2, 20));
+    await tree.update(15, enc.encode('changed'));
+    const [root] = tree.getRootHash();
+
+    const proof = tree.generateProof(15);
+    const result = verifyProofAgainstRoot(proof, enc.encode('changed'), root!);
+    expect(result).toEqual([true, null]);
+    expect(await tree.verify(19, blocks[19])).toEqual([true, null]);
+
+    const restored = TernaryMeshTree.deserialize(tree.serialize());
+    await restored.append(blocks[20]);
+    await tree.append(blocks[20]);
+    expect(restored.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+    expect(restored.generateProof(20)).toEqual(tree.generateProof(20));
+  });
+});
+
+describe('batchUpdate', () => {
+  it('should match a fresh build when updates span subtrees', async () => {
+    const enc = new TextEncoder();
+    const blocks = Array.from({ length: 6 }, (_, i) => enc.encode(`b${i}`));
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+
+    await tree.batchUpdate(
+      new Map([
+        [0, enc.encode('x0')],
+        [5, enc.encode('x5')],
+      ])
+    );
+
+    const expected = new TernaryMeshTree();
+    blocks[0] = enc.encode('x0');
+    blocks[5] = enc.encode('x5');
+    await expected.build(blocks);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+  });
+});
+
+describe('update', () => {
+  it('should match a fresh build in a multi-level tree', async () => {
+    const enc = new TextEncoder();
+    const blocks = Array.from({ length: 20 }, (_, i) => enc.encode(`b${i}`));
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    await tree.update(15, enc.encode('x15'));
+
+    const expected = new TernaryMeshTree();
+    blocks[15] = enc.encode('x15');
+    await expected.build(blocks);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+  });
+});
+
+describe('consistency proofs', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 30 }, (_, i) => enc.encode(`block${i}`));
+
+  const buildTrees = async () => {
+    const trees: TernaryMeshTree[] = [];
+    for (let n = 1; n <= blocks.length; n++) {
+      const tree = new TernaryMeshTree();
+      await tree.build(blocks.slice(0, n));
+      trees[n] = tree;
+    }
+    return trees;
+  };
+
+  it('should prove every old size against every newer size', async () => {
+    const trees = await buildTrees();
+    for (let n = 1; n <= blocks.length; n++) {
+      const [newRoot] = trees[n].getRootHash();
+      for (let m = 1; m <= n; m++) {
+        const [oldRoot] = trees[m].getRootHash();
+        const proof = trees[n].generateConsistencyProof(m);
+        const result = verifyConsistencyProof(oldRoot!, m, newRoot!, n, proof);
+        expect(result).toEqual([true, null]);
+      }
+    }
+  });
+
+  it('should work for trees grown with append', async () => {
+    const trees = await buildTrees();
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 4));
+    await tree.appendBatch(blocks.slice(4, 17));
+
+    const proof = tree.generateConsistencyProof(4);
+    const [oldRoot] = trees[4].getRootHash();
+    const [newRoot] = tree.getRootHash();
+    expect(verifyConsistencyProof(oldRoot!, 4, newRoot!, 17, proof)).toEqual([
+      true,
+      null,
+    ]);
+  });
+
+  it('should reject a rewritten history', async () => {
+    const trees = await buildTrees();
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 20));
+    await tree.update(2, enc.encode('rewritten'));
+
+    const proof = tree.generateConsistencyProof(7);
+    const [oldRoot] = trees[7].getRootHash();
+    const [newRoot] = tree.getRootHash();
+    expect(verifyConsistencyProof(oldRoot!, 7, newRoot!, 20, proof)).toEqual([
+      false,
+      null,
+    ]);
+  });
+
+  it('should reject malformed proofs', async () => {
+    const trees = await buildTrees();
+    const [oldRoot] = trees[5].getRootHash();
+    const [newRoot] = trees[12].getRootHash();
+    const proof = trees[12].generateConsistencyProof(5);
+
+    const check = (oldSize: number, p: typeof proof) =>
+      verifyConsistencyProof(oldRoot!, oldSize, newRoot!, 12, p);
+
+    const short = { ...proof, hashes: proof.hashes.slice(1) };
+    expect(check(5, short)[1]).not.toBeNull();
+    const long = { ...proof, hashes: [...proof.hashes, proof.hashes[0]] };
+    expect(check(5, long)[1]).not.toBeNull();
+    expect(check(6, proof)[0]).toBe(false);
+    expect(() => trees[5].generateConsistencyProof(6)).toThrow();
+  });
+});
+
+describe('multi proofs', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 50 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should verify subsets of leaves', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    const subsets = [[0], [49], [0, 49], [3, 4, 5], [10, 2, 33, 34, 48]];
+    for (const subset of subsets) {
+      const proof = tree.generateMultiProof(subset);
+      const leaves = proof.indices.map(i => blocks[i]);
+      expect(verifyMultiProof(proof, leaves, root!)).toEqual([true, null]);
+    }
+  });
+
+  it('should send each sibling hash only once', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 27));
+
+    const all = Array.from({ length: 27 }, (_, i) => i);
+    expect(tree.generateMultiProof(all).hashes).toHaveLength(0);
+
+    const some = [0, 1, 2, 5, 20];
+    const single = some
+      .map(i => tree.generateProof(i).siblingHashes.length)
+      .reduce((a, b) => a + b, 0);
+    expect(tree.generateMultiProof(some).hashes.length).toBeLessThan(single);
+  });
+
+  it('should follow batchUpdate', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const updates = new Map([
+      [7, enc.encode('x7')],
+      [40, enc.encode('x40')],
+    ]);
+    await tree.batchUpdate(updates);
+    const [root] = tree.getRootHash();
+
+    const proof = tree.generateMultiProof([40, 7]);
+    const leaves = [updates.get(7)!, updates.get(40)!];
+    expect(verifyMultiProof(proof, leaves, root!)).toEqual([true, null]);
+  });
+
+  it('should reject bad leaves and malformed proofs', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const proof = tree.generateMultiProof([1, 30]);
+
+    const wrong = [blocks[1], blocks[31]];
+    expect(verifyMultiProof(proof, wrong, root!)).toEqual([false, null]);
+
+    const leaves = [blocks[1], blocks[30]];
+    const unsorted = { ...proof, indices: [30, 1] };
+    expect(verifyMultiProof(unsorted, leaves, root!)[1]).not.toBeNull();
+    const short = { ...proof, hashes: proof.hashes.slice(1) };
+    expect(verifyMultiProof(short, leaves, root!)[1]).not.toBeNull();
+    expect(() => tree.generateMultiProof([50])).toThrow();
+  });
+});
+
+describe('range proofs', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 50 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should verify contiguous ranges', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    const ranges = [
+      [0, 1],
+      [49, 50],
+      [0, 50],
+      [3, 12],
+      [17, 44],
+      [45, 50],
+    ];
+    for (const [start, end] of ranges) {
+      const proof = tree.generateRangeProof(start, end);
+      const leaves = blocks.slice(start, end);
+      expect(verifyRangeProof(root!, start, leaves, proof)).toEqual([
+        true,
+        null,
+      ]);
+    }
+  });
+
+  it('should send only the edge siblings', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 27));
+    expect(tree.generateRangeProof(0, 27).hashes).toHaveLength(0);
+    // a whole subtree needs only the siblings on its path
+    expect(tree.generateRangeProof(9, 18).hashes).toHaveLength(2);
+
+    const perLeaf = Array.from({ length: 20 }, (_, i) => i + 4)
+      .map(i => tree.generateProof(i).siblingHashes.length)
+      .reduce((a, b) => a + b, 0);
+    const range = tree.generateRangeProof(4, 24).hashes.length;
+    expect(range).toBeLessThanOrEqual(8);
+    expect(range).toBeLessThan(perLeaf);
+  });
+
+  it('should reject wrong leaves and mismatched ranges', async () => {
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const proof = tree.generateRangeProof(10, 20);
+    const leaves = blocks.slice(10, 20);
+    expect(verifyRangeProof(root!, 10, leaves, proof, 'legacy')).toEqual([
+      true,
+      null,
+    ]);
+
+    const swapped = [leaves[1], leaves[0], ...leaves.slice(2)];
+    expect(verifyRangeProof(root!, 10, swapped, proof, 'legacy')).toEqual([
+      false,
+      null,
+    ]);
+    expect(
+      verifyRangeProof(root!, 11, leaves, proof, 'legacy')[1]
+    ).not.toBeNull();
+    expect(
+      verifyRangeProof(root!, 10, leaves.slice(1), proof, 'legacy')[1]
+    ).not.toBeNull();
+    const shifted = { ...proof, start: 11, end: 21 };
+    expect(verifyRangeProof(root!, 11, leaves, shifted, 'legacy')[0]).toBe(
+      false
+    );
+
+    expect(() => tree.generateRangeProof(5, 5)).toThrow(TMTError);
+    expect(() => tree.generateRangeProof(40, 51)).toThrow(TMTError);
+  });
+});
+
+describe('proof encoding', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 25 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should round-trip every proof', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    for (let i = 0; i < blocks.length; i++) {
+      const proof = tree.generateProof(i);
+      const bytes = encodeProof(proof);
+      const decoded = decodeProof(bytes);
+      expect(decoded).toEqual(proof);
+      expect(verifyProofAgainstRoot(decoded, blocks[i], root!)).toEqual([
+        true,
+        null,
+      ]);
+    }
+  });
+
+  it('should be much smaller than JSON', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const proof = tree.generateProof(7);
+    const bytes = encodeProof(proof);
+    // 7 header bytes, 2 bits per step (4 steps fit one byte), 32 bytes per
+    // sibling
+    expect(proof.pathLength).toBe(3);
+    expect(bytes.length).toBe(7 + 1 + proof.siblingHashes.length * 32);
+    expect(bytes.length * 4).toBeLessThan(JSON.stringify(proof).length);
+
+    const big = new TernaryMeshTree();
+    await big.build(Array.from({ length: 730 }, (_, i) => enc.encode(`${i}`)));
+    const deep = big.generateProof(729);
+    expect(deep.pathLength).toBe(7);
+    expect(encodeProof(deep).length).toBe(
+      7 + 2 + deep.siblingHashes.length * 32
+    );
+  });
+
+  it('should reject bad input', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const bytes = encodeProof(tree.generateProof(7));
+
+    expect(() => decodeProof(bytes.slice(0, 5))).toThrow('truncated');
+    expect(() => decodeProof(bytes.slice(0, bytes.length - 1))).toThrow(
+      'truncated'
+    );
+    const trailing = new Uint8Array(bytes.length + 1);
+    trailing.set(bytes);
+    expect(() => decodeProof(trailing)).toThrow('trailing');
+
+    const badVersion = new Uint8Array(bytes);
+    badVersion[0] = 9;
+    expect(() => decodeProof(badVersion)).toThrow('version');
+
+    const badHashLen = new Uint8Array(bytes);
+    badHashLen[1] = 20;
+    expect(() => decodeProof(badHashLen)).toThrow('hash length');
+
+    const badCount = new Uint8Array(bytes);
+    badCount[7] |= 0xc0; // child count 4
+    expect(() => decodeProof(badCount)).toThrow('bad step');
+
+    const badPadding = new Uint8Array(bytes);
+    badPadding[7] |= 0x01;
+    expect(() => decodeProof(badPadding)).toThrow('padding');
+
+    // leaf 7 is position 1, then 2: a parent with one child cannot hold it
+    const badPos = new Uint8Array(bytes);
+    badPos[7] &= 0x3f;
+    expect(() => decodeProof(badPos)).toThrow('bad step');
+
+    const badIndex = new Uint8Array(bytes);
+    badIndex[2] = 1; // needs more than the three steps of the path
+    expect(() => decodeProof(badIndex)).toThrow('does not fit');
+
+    const proof = tree.generateProof(7);
+    const wrongPos = {
+      ...proof,
+      steps: proof.steps.map((s, i) => (i === 0 ? { ...s, pos: 0 } : s)),
+    };
+    expect(() => encodeProof(wrongPos)).toThrow('does not match');
+  });
+
+  it('should convert hex and base64', () => {
+    const data = new Uint8Array([0, 1, 2, 250, 251, 252, 253]);
+    for (let n = 0; n <= data.length; n++) {
+      const part = data.slice(0, n);
+      expect(hexToBytes(hashToHex(part))).toEqual(part);
+      expect(base64ToBytes(bytesToBase64(part))).toEqual(part);
+    }
+    expect(bytesToBase64(enc.encode('hello'))).toBe('aGVsbG8=');
+    expect(() => hexToBytes('abc')).toThrow();
+    expect(() => base64ToBytes('a=b=')).toThrow();
+  });
+});
+
+describe('binary snapshots', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 17 }, (_, i) => enc.encode(`block${i}`));
+
+  it('should round-trip and rebuild the internal nodes', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    await tree.update(3, enc.encode('changed'));
+
+    const bytes = tree.serializeBinary();
+    const restored = TernaryMeshTree.deserializeBinary(bytes);
+    expect(restored.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+    expect(restored.getLeafCount()).toBe(17);
+    expect(restored.generateProof(3)).toEqual(tree.generateProof(3));
+    expect(await restored.verify(3, enc.encode('changed'))).toEqual([
+      true,
+      null,
+    ]);
+    expect(bytes.length * 4).toBeLessThan(tree.serialize().length);
+  });
+
+  it('should record the hash scheme', async () => {
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await tree.build(blocks);
+    const restored = TernaryMeshTree.deserializeBinary(tree.serializeBinary());
+    expect(restored.getHashScheme()).toBe('legacy');
+    expect(restored.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+  });
+
+  it('should reject corrupted snapshots', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const bytes = tree.serializeBinary();
+
+    const flipped = new Uint8Array(bytes);
+    flipped[40] ^= 1;
+    expect(() => TernaryMeshTree.deserializeBinary(flipped)).toThrow(
+      'checksum'
+    );
+    expect(() =>
+      TernaryMeshTree.deserializeBinary(bytes.slice(0, 20))
+    ).toThrow();
+    const notSnapshot = new Uint8Array(bytes);
+    notSnapshot[0] = 0;
+    expect(() => TernaryMeshTree.deserializeBinary(notSnapshot)).toThrow(
+      'not a snapshot'
+    );
+  });
+});
+
+describe('validation', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 11 }, (_, i) => enc.encode(`block${i}`));
+
+  const tamper = async (edit: (blob: any) => void) => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const blob = JSON.parse(tree.serialize());
+    edit(blob);
+    return JSON.stringify(blob);
+  };
+
+  it('should accept built, appended and updated trees', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 2));
+    await tree.appendBatch(blocks.slice(2));
+    await tree.update(4, enc.encode('x'));
+
+    const report = tree.validate();
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.checkedNodes).toBeGreaterThan(blocks.length);
+    expect(new TernaryMeshTree().validate().valid).toBe(true);
+  });
+
+  it('should report leaf data that does not match its hash', async () => {
+    const data = await tamper(blob => {
+      blob.leafData[2] = [1, 2, 3];
+    });
+    const report = TernaryMeshTree.deserialize(data).validate();
+    expect(report.valid).toBe(false);
+    expect(report.issues[0]).toEqual({
+      nodeID: 2,
+      message: 'leaf hash does not match its data',
+    });
+  });
+
+  it('should report broken links and a bad root', async () => {
+    const badParent = await tamper(blob => {
+      blob.nodes[0].parent = 5;
+    });
+    const issues = TernaryMeshTree.deserialize(badParent).validate().issues;
+    expect(issues[0].nodeID).toBe(0);
+    expect(issues[0].message).toContain('parent');
+
+    const badRoot = await tamper(blob => {
+      blob.rootID = 999;
+    });
+    const report = TernaryMeshTree.deserialize(badRoot).validate();
+    expect(report.issues[0].message).toContain('out of range');
+  });
+
+  it('should reject tampered blobs in strict mode', async () => {
+    const data = await tamper(blob => {
+      blob.nodes[blob.rootID].hash[0] ^= 1;
+    });
+    expect(() => TernaryMeshTree.deserialize(data)).not.toThrow();
+
+    let error: unknown;
+    try {
+      TernaryMeshTree.deserialize(data, defaultConfig(), { strict: true });
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(TMTValidationError);
+    const { report } = error as TMTValidationError;
+    expect(report.issues[0].message).toBe('hash does not match its children');
+  });
+
+  it('should reject blobs that are not tree objects', async () => {
+    const noNodes = await tamper(blob => {
+      delete blob.nodes;
+    });
+    const badLeafIDs = await tamper(blob => {
+      blob.leafIDs = 5;
+    });
+    for (const data of ['null', '[]', '7', noNodes, badLeafIDs]) {
+      expect(() => TernaryMeshTree.deserialize(data)).toThrow(TMTError);
+      expect(() =>
+        TernaryMeshTree.deserialize(data, defaultConfig(), { strict: true })
+      ).toThrow(TMTError);
+    }
+  });
+
+  it('should derive the leaf map when a blob has none', async () => {
+    const data = await tamper(blob => {
+      delete blob.leafIDs;
+    });
+    const tree = TernaryMeshTree.deserialize(data, defaultConfig(), {
+      strict: true,
+    });
+    expect(tree.validate().valid).toBe(true);
+    expect(tree.getLeafCount()).toBe(blocks.length);
+  });
+
+  it('should cap the number of reported issues', async () => {
+    const data = await tamper(blob => {
+      blob.leafData = blob.leafData.map(() => [7]);
+    });
+    const report = TernaryMeshTree.deserialize(data).validate(3);
+    expect(report.issues).toHaveLength(3);
+  });
+});
+
+describe('hash-only mode', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 11 }, (_, i) => enc.encode(`leaf${i}`));
+  const hashOnly = { ...defaultConfig(), retainLeafData: false };
+
+  it('should match a full tree and keep proofs working', async () => {
+    const full = new TernaryMeshTree();
+    await full.build(blocks);
+    const tree = new TernaryMeshTree(hashOnly);
+    await tree.build(blocks);
+
+    expect(tree.retainsLeafData()).toBe(false);
+    expect(tree.getRootHash()[0]).toEqual(full.getRootHash()[0]);
+    expect(await tree.verify(7, blocks[7])).toEqual([true, null]);
+    expect(tree.verifyProof(tree.generateProof(3), blocks[3])).toEqual([
+      true,
+      null,
+    ]);
+
+    await tree.update(2, enc.encode('x'));
+    await tree.append(enc.encode('y'));
+    await full.update(2, enc.encode('x'));
+    await full.append(enc.encode('y'));
+    expect(tree.getRootHash()[0]).toEqual(full.getRootHash()[0]);
+    expect(tree.validate().valid).toBe(true);
+    expect(JSON.parse(tree.serialize()).leafData).toEqual([]);
+  });
+
+  it('should build from precomputed leaf hashes', async () => {
+    const full = new TernaryMeshTree();
+    await full.build(blocks);
+    const tree = new TernaryMeshTree();
+    await tree.buildFromHashes(blocks.map(b => hashLeaf(b)));
+
+    expect(tree.retainsLeafData()).toBe(false);
+    expect(tree.getLeafCount()).toBe(blocks.length);
+    expect(tree.getRootHash()[0]).toEqual(full.getRootHash()[0]);
+    expect(tree.generateMultiProof([1, 9])).toEqual(
+      full.generateMultiProof([1, 9])
+    );
+
+    await expect(tree.buildFromHashes([])).rejects.toThrow('empty data');
+    await expect(tree.buildFromHashes([new Uint8Array(31)])).rejects.toThrow(
+      'invalid hash'
+    );
+  });
+
+  it('should round-trip snapshots without payloads', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.buildFromHashes(blocks.map(b => hashLeaf(b)));
+    const [root] = tree.getRootHash();
+
+    const json = TernaryMeshTree.deserialize(
+      tree.serialize(),
+      defaultConfig(),
+      {
+        strict: true,
+      }
+    );
+    expect(json.retainsLeafData()).toBe(false);
+    expect(json.getRootHash()[0]).toEqual(root);
+
+    const bytes = tree.serializeBinary();
+    const full = new TernaryMeshTree();
+    await full.build(blocks);
+    expect(bytes.length).toBeLessThan(full.serializeBinary().length);
+    const bin = TernaryMeshTree.deserializeBinary(bytes, defaultConfig(), {
+      strict: true,
+    });
+    expect(bin.retainsLeafData()).toBe(false);
+    expect(bin.getRootHash()[0]).toEqual(root);
+    expect(await bin.verify(10, blocks[10])).toEqual([true, null]);
+  });
+});
+
+describe('hashers', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 8 }, (_, i) => enc.encode(`h${i}`));
+  const shaCfg = { ...defaultConfig(), hasher: sha256Hasher };
+
+  it('should build, prove and verify with sha256', async () => {
+    const tree = new TernaryMeshTree(shaCfg);
+    await tree.build(blocks);
+    const blake = new TernaryMeshTree();
+    await blake.build(blocks);
+    const [root] = tree.getRootHash();
+    expect(root).not.toEqual(blake.getRootHash()[0]);
+    expect(tree.getHasher().name).toBe('sha256');
+
+    // a leaf is sha256(0x00 || data)
+    const framed = new Uint8Array([0, ...Array.from(blocks[0])]);
+    expect(sha256Hasher.hashLeaf(blocks[0], 'tagged')).toEqual(sha256(framed));
+
+    const proof = tree.generateProof(5);
+    expect(tree.verifyProof(proof, blocks[5])).toEqual([true, null]);
+    expect(
+      verifyProofAgainstRoot(proof, blocks[5], root!, 'tagged', sha256Hasher)
+    ).toEqual([true, null]);
+    expect(verifyProofAgainstRoot(proof, blocks[5], root!)[0]).toBe(false);
+
+    const multi = tree.generateMultiProof([0, 7]);
+    const leaves = [blocks[0], blocks[7]];
+    expect(
+      verifyMultiProof(multi, leaves, root!, 'tagged', sha256Hasher)
+    ).toEqual([true, null]);
+
+    await tree.append(enc.encode('more'));
+    const [newRoot] = tree.getRootHash();
+    const consistency = tree.generateConsistencyProof(8);
+    expect(
+      verifyConsistencyProof(
+        root!,
+        8,
+        newRoot!,
+        9,
+        consistency,
+        'tagged',
+        sha256Hasher
+      )
+    ).toEqual([true, null]);
+  });
+
+  it('should record the hasher in snapshots', async () => {
+    const tree = new TernaryMeshTree(shaCfg);
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    const json = TernaryMeshTree.deserialize(tree.serialize());
+    expect(json.getHasher()).toBe(sha256Hasher);
+    expect(json.validate().valid).toBe(true);
+    const bin = TernaryMeshTree.deserializeBinary(tree.serializeBinary());
+    expect(bin.getHasher()).toBe(sha256Hasher);
+    expect(bin.getRootHash()[0]).toEqual(root);
+  });
+
+  it('should support custom hashers and reject unknown ones', async () => {
+    const short = digestHasher('sha256/20', 20, d => sha256(d).slice(0, 20));
+    const cfg = { ...defaultConfig(), hasher: short };
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(blocks);
+    expect(tree.getRootHash()[0]!.length).toBe(20);
+    expect(tree.validate().valid).toBe(true);
+    expect(await tree.verify(3, blocks[3])).toEqual([true, null]);
+
+    const bin = TernaryMeshTree.deserializeBinary(tree.serializeBinary(), cfg);
+    expect(bin.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+    expect(() =>
+      TernaryMeshTree.deserializeBinary(tree.serializeBinary())
+    ).toThrow('unknown hasher sha256/20');
+    expect(() => TernaryMeshTree.deserialize(tree.serialize())).toThrow(
+      'unknown hasher sha256/20'
+    );
+  });
+
+  it('should load version 1 snapshots as blake3', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const v2 = tree.serializeBinary();
+
+    // drop the hasher name (u8 length + "blake3") and re-checksum
+    const body = new Uint8Array(v2.length - 32 - 7);
+    body.set(v2.subarray(0, 12));
+    body.set(v2.subarray(19, v2.length - 32), 12);
+    body[4] = 1;
+    const v1 = new Uint8Array(body.length + 32);
+    v1.set(body);
+    v1.set(computeHash(body), body.length);
+
+    const loaded = TernaryMeshTree.deserializeBinary(v1);
+    expect(loaded.getRootHash()[0]).toEqual(tree.getRootHash()[0]);
+    expect(loaded.getHasher().name).toBe('blake3');
+  });
+});
+
+describe('remove and compact', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 10 }, (_, i) => enc.encode(`r${i}`));
+
+  it('should tombstone leaves without shifting indices', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [before] = tree.getRootHash();
+
+    await tree.removeBatch([2, 7]);
+    expect(tree.getLeafCount()).toBe(10);
+    expect(tree.isRemoved(2)).toBe(true);
+    expect(tree.isRemoved(3)).toBe(false);
+    expect(tree.getRootHash()[0]).not.toEqual(before);
+    expect((await tree.verify(2, blocks[2]))[0]).toBe(false);
+    expect(await tree.verify(8, blocks[8])).toEqual([true, null]);
+    expect(tree.validate().valid).toBe(true);
+
+    // a tombstone differs from an emptied leaf and from padding
+    const emptied = new TernaryMeshTree();
+    await emptied.build(blocks);
+    await emptied.update(2, new Uint8Array(0));
+    await emptied.update(7, new Uint8Array(0));
+    expect(emptied.getRootHash()[0]).not.toEqual(tree.getRootHash()[0]);
+
+    const [root] = tree.getRootHash();
+    expect(verifyRemovalProof(tree.generateProof(7), root!)).toEqual([
+      true,
+      null,
+    ]);
+    expect(verifyRemovalProof(tree.generateProof(6), root!)[0]).toBe(false);
+
+    // updating a removed leaf restores it
+    await tree.update(2, blocks[2]);
+    expect(tree.isRemoved(2)).toBe(false);
+
+    const reloaded = TernaryMeshTree.deserialize(tree.serialize());
+    expect(reloaded.isRemoved(7)).toBe(true);
+    expect(reloaded.validate().valid).toBe(true);
+  });
+
+  it('should compact to the remaining leaves', async () => {
+    for (const retainLeafData of [true, false]) {
+      const cfg = { ...defaultConfig(), retainLeafData };
+      const tree = new TernaryMeshTree(cfg);
+      await tree.build(blocks);
+      await tree.remove(0);
+      await tree.removeBatch([4, 5, 9]);
+
+      expect(await tree.compact()).toEqual([1, 2, 3, 6, 7, 8]);
+      const expected = new TernaryMeshTree();
+      await expected.build([1, 2, 3, 6, 7, 8].map(i => blocks[i]));
+      expect(tree.getLeafCount()).toBe(6);
+      expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+      expect(tree.validate().valid).toBe(true);
+      expect(await tree.verify(3, blocks[6])).toEqual([true, null]);
+    }
+  });
+
+  it('should handle removing everything and bad input', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks.slice(0, 2));
+    await expect(tree.remove(2)).rejects.toThrow('invalid index');
+    await tree.removeBatch([0, 1]);
+    expect(await tree.compact()).toEqual([]);
+    expect(tree.getLeafCount()).toBe(0);
+    expect(tree.getRootHash()).toEqual([null, false]);
+
+    await tree.append(blocks[5]);
+    expect(await tree.verify(0, blocks[5])).toEqual([true, null]);
+
+    const legacy = new TernaryMeshTree({
+      ...defaultConfig(),
+      hashScheme: 'legacy',
+    });
+    await legacy.build(blocks);
+    await expect(legacy.remove(0)).rejects.toThrow('tagged hash scheme');
+  });
+});
+
+describe('versions', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 7 }, (_, i) => enc.encode(`v${i}`));
+
+  it('should prove leaves against committed roots', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const v1 = tree.commit();
+    expect(v1.root).toEqual(tree.getRootHash()[0]);
+
+    await tree.update(1, enc.encode('changed'));
+    await tree.appendBatch([enc.encode('v7'), enc.encode('v8')]);
+    const v2 = tree.commit();
+    await tree.remove(0);
+    await tree.appendBatch(
+      Array.from({ length: 20 }, (_, i) => enc.encode(`w${i}`))
+    );
+    const [current] = tree.getRootHash();
+
+    expect(v2.version).toBeGreaterThan(v1.version);
+    expect(tree.getRootHash(v1.version)).toEqual([v1.root, true]);
+    expect(tree.getRootHash(v2.version)).toEqual([v2.root, true]);
+    expect(tree.getRootHash(99)).toEqual([null, false]);
+
+    // old versions read as they were built
+    const rebuilt = new TernaryMeshTree();
+    await rebuilt.build(blocks);
+    expect(rebuilt.getRootHash()[0]).toEqual(v1.root);
+
+    for (let i = 0; i < blocks.length; i++) {
+      const proof = tree.generateProof(i, v1.version);
+      expect(proof).toEqual(rebuilt.generateProof(i));
+      expect(verifyProofAgainstRoot(proof, blocks[i], v1.root)).toEqual([
+        true,
+        null,
+      ]);
+    }
+    const p1 = tree.generateProof(1, v2.version);
+    expect(verifyProofAgainstRoot(p1, enc.encode('changed'), v2.root)[0]).toBe(
+      true
+    );
+    const p8 = tree.generateProof(8, v2.version);
+    expect(verifyProofAgainstRoot(p8, enc.encode('v8'), v2.root)[0]).toBe(true);
+    expect(() => tree.generateProof(9, v2.version)).toThrow(TMTError);
+
+    // the current tree is unaffected
+    const p0 = tree.generateProof(0);
+    expect(verifyRemovalProof(p0, current!)).toEqual([true, null]);
+    expect(tree.validate().valid).toBe(true);
+  });
+
+  it('should prune old versions and reset on rebuild', async () => {
+    const tree = new TernaryMeshTree();
+    expect(() => tree.commit()).toThrow(TMTError);
+    await tree.build(blocks);
+    const v1 = tree.commit();
+    await tree.update(0, enc.encode('x'));
+    const v2 = tree.commit();
+    await tree.update(0, enc.encode('y'));
+    const v3 = tree.commit();
+
+    expect(tree.getVersions().map(v => v.version)).toEqual([
+      v1.version,
+      v2.version,
+      v3.version,
+    ]);
+    expect(tree.prune(v3.version)).toBe(2);
+    expect(tree.getRootHash(v2.version)).toEqual([null, false]);
+    expect(() => tree.generateProof(0, v2.version)).toThrow(TMTError);
+    const p = tree.generateProof(0, v3.version);
+    expect(verifyProofAgainstRoot(p, enc.encode('y'), v3.root)[0]).toBe(true);
+
+    await tree.build(blocks);
+    expect(tree.getVersions()).toEqual([]);
+    expect(tree.commit().version).toBe(v3.version + 1);
+  });
+});
+
+describe('events and metrics', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 9 }, (_, i) => enc.encode(`e${i}`));
+
+  it('should fire mutation events with old and new roots', async () => {
+    const tree = new TernaryMeshTree();
+    const seen: string[] = [];
+    const roots: Array<[Uint8Array | null, Uint8Array | null]> = [];
+    tree.on('build', e => seen.push(`build ${e.leafCount}`));
+    tree.on('update', e => seen.push(`update ${e.leafIndex}`));
+    tree.on('batchUpdate', e => seen.push(`batchUpdate ${e.count}`));
+    const stop = tree.on('rootChanged', e => {
+      roots.push([e.oldRoot, e.newRoot]);
+    });
+
+    await tree.build(blocks);
+    const [r1] = tree.getRootHash();
+    await tree.update(2, enc.encode('x'));
+    const [r2] = tree.getRootHash();
+    await tree.update(2, enc.encode('x')); // same root
+    await tree.batchUpdate(new Map([[0, enc.encode('y')]]));
+    stop();
+    await tree.update(1, enc.encode('z'));
+
+    expect(seen).toEqual([
+      'build 9',
+      'update 2',
+      'update 2',
+      'batchUpdate 1',
+      'update 1',
+    ]);
+    expect(roots).toHaveLength(3);
+    expect(roots[0]).toEqual([null, r1]);
+    expect(roots[1]).toEqual([r1, r2]);
+    expect(roots[2][0]).toEqual(r2);
+  });
+
+  it('should report failed verifications', async () => {
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      enableMetrics: false,
+    });
+    await tree.build(blocks);
+    const failed: Array<{ leafIndex: number; error: Error | null }> = [];
+    tree.on('verifyFailed', e => {
+      expect(e.durationMS).toBeGreaterThanOrEqual(0);
+      failed.push({ leafIndex: e.leafIndex, error: e.error });
+    });
+
+    expect(await tree.verify(1, blocks[1])).toEqual([true, null]);
+    await tree.verify(1, enc.encode('wrong'));
+    await tree.verify(20, blocks[1]);
+    tree.verifyProof(tree.generateProof(3), enc.encode('wrong'));
+
+    expect(failed.map(f => f.leafIndex)).toEqual([1, 20, 3]);
+    expect(failed[0].error).toBeNull();
+    expect(failed[1].error).toBeInstanceOf(TMTError);
+  });
+
+  it('should track latency quantiles and cache hits', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build([blocks[0], blocks[0], blocks[1]]);
+    for (let i = 0; i < 5; i++) {
+      await tree.update(i % 3, enc.encode(`u${i}`));
+    }
+    await tree.verify(0, enc.encode('u3'));
+
+    const m = tree.getMetrics();
+    expect(m.totalUpdates).toBe(5);
+    expect(m.cacheHits).toBe(1);
+    expect(m.cacheMisses).toBe(2);
+    expect(m.cacheHitRate).toBeCloseTo(1 / 3);
+    expect(m.updateLatencyP50MS).toBeGreaterThan(0);
+    expect(m.updateLatencyP99MS).toBeGreaterThanOrEqual(m.updateLatencyP50MS);
+
+    const text = tree.exportPrometheus({ tree: 'main' });
+    expect(text).toContain('# TYPE tmt_update_duration_seconds histogram');
+    expect(text).toContain(
+      'tmt_update_duration_seconds_bucket{tree="main",le="+Inf"} 5'
+    );
+    expect(text).toContain('tmt_update_duration_seconds_count{tree="main"} 5');
+    expect(text).toContain('tmt_verify_duration_seconds_count{tree="main"} 1');
+    expect(text).toContain('tmt_cache_hits_total{tree="main"} 1');
+    expect(text).toContain('tmt_leaves{tree="main"} 3');
+
+    const off = new TernaryMeshTree({
+      ...defaultConfig(),
+      enableMetrics: false,
+    });
+    await off.build(blocks);
+    expect(off.getMetrics().cacheMisses).toBe(0);
+    expect(off.exportPrometheus()).toContain('tmt_updates_total 0');
+  });
+});
+
+describe('concurrency and transactions', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 9 }, (_, i) => enc.encode(`c${i}`));
+
+  // CountingStore counts store batches.
+  class CountingStore extends MemoryNodeStore {
+    batches = 0;
+
+    batch(ops: StoreOp[]): void {
+      this.batches++;
+      super.batch(ops);
+    }
+  }
+
+  it('should make verify wait for a build in progress', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+
+    let release = () => {};
+    const paused = new Promise<void>(resolve => (release = resolve));
+    async function* source() {
+      yield enc.encode('n0');
+      await paused;
+      yield enc.encode('n1');
+    }
+    const building = tree.buildFromStream(source());
+    const verifying = tree.verify(0, enc.encode('n0'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    release();
+    await building;
+    expect(await verifying).toEqual([true, null]);
+    expect(tree.getLeafCount()).toBe(2);
+  });
+
+  it('should show the previous tree while a stream build runs', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const blob = tree.serialize();
+
+    let release = () => {};
+    const paused = new Promise<void>(resolve => (release = resolve));
+    async function* source() {
+      yield enc.encode('n0');
+      yield enc.encode('n1');
+      await paused;
+      yield enc.encode('n2');
+    }
+    const building = tree.buildFromStream(source());
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    // sync readers do not take the lock
+    expect(tree.getRootHash()).toEqual([root, true]);
+    expect(tree.getLeafCount()).toBe(9);
+    const proof = tree.generateProof(4);
+    expect(proof.pathLength).toBe(2);
+    expect(tree.verifyProof(proof, blocks[4])).toEqual([true, null]);
+    expect(tree.serialize()).toBe(blob);
+    const summary = serveSync(tree)({ type: 'summary' });
+    expect(summary.type).toBe('summary');
+
+    release();
+    await building;
+    expect(tree.getLeafCount()).toBe(3);
+    expect(tree.getRootHash()[0]).not.toEqual(root);
+  });
+
+  it('should fire verifyFailed during a transaction that fails', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const failed: number[] = [];
+    tree.on('verifyFailed', e => failed.push(e.leafIndex));
+
+    await expect(
+      tree.transaction(async tx => {
+        await tx.update(0, enc.encode('a'));
+        tree.verifyProof(tree.generateProof(1), enc.encode('wrong'));
+        expect(failed).toEqual([1]);
+        throw new Error('abort');
+      })
+    ).rejects.toThrow(/abort/);
+    expect(failed).toEqual([1]);
+  });
+
+  it('should keep the previous tree when writing a build fails', async () => {
+    const store = new CountingStore();
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+
+    const batch = store.batch;
+    store.batch = () => {
+      throw new Error('disk full');
+    };
+    await expect(tree.build(blocks.slice(0, 4))).rejects.toThrow(/disk full/);
+    store.batch = batch;
+
+    expect(tree.getRootHash()[0]).toEqual(root);
+    expect(await tree.verify(8, blocks[8])).toEqual([true, null]);
+    expect(
+      new TernaryMeshTree({ ...defaultConfig(), store }).getRootHash()[0]
+    ).toEqual(root);
+  });
+
+  it('should store a transaction as one batch', async () => {
+    const store = new CountingStore();
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const seen: string[] = [];
+    tree.on('update', e => seen.push(`update ${e.leafIndex}`));
+    tree.on('rootChanged', () => seen.push('rootChanged'));
+
+    const before = store.batches;
+    const index = await tree.transaction(async tx => {
+      await tx.update(0, enc.encode('a'));
+      await tx.batchUpdate(new Map([[1, enc.encode('b')]]));
+      const i = await tx.append(enc.encode('c'));
+      expect(await tx.verify(i, enc.encode('c'))).toEqual([true, null]);
+      expect(seen).toEqual([]);
+      return i;
+    });
+    expect(index).toBe(9);
+    expect(store.batches).toBe(before + 1);
+    expect(seen).toEqual(['rootChanged', 'update 0']);
+
+    const expected = new TernaryMeshTree();
+    await expected.build([
+      enc.encode('a'),
+      enc.encode('b'),
+      ...blocks.slice(2),
+      enc.encode('c'),
+    ]);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+    expect(
+      new TernaryMeshTree({ ...defaultConfig(), store }).getRootHash()[0]
+    ).toEqual(expected.getRootHash()[0]);
+  });
+
+  it('should roll back a failed transaction', async () => {
+    const store = new CountingStore();
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const fired: string[] = [];
+    tree.on('update', e => fired.push(`update ${e.leafIndex}`));
+    tree.on('rootChanged', () => fired.push('rootChanged'));
+
+    const before = store.batches;
+    await expect(
+      tree.transaction(async tx => {
+        await tx.update(0, enc.encode('a'));
+        await tx.appendBatch([enc.encode('b'), enc.encode('c')]);
+        await tx.batchUpdate(new Map([[99, enc.encode('x')]]));
+      })
+    ).rejects.toThrow(/invalid index/);
+
+    expect(store.batches).toBe(before);
+    expect(fired).toEqual([]);
+    expect(tree.getRootHash()[0]).toEqual(root);
+    expect(tree.getLeafCount()).toBe(9);
+    expect(await tree.verify(0, blocks[0])).toEqual([true, null]);
+    expect(tree.validate().valid).toBe(true);
+
+    // the tree keeps working where it left off
+    await tree.append(enc.encode('d'));
+    const expected = new TernaryMeshTree();
+    await expected.build([...blocks, enc.encode('d')]);
+    expect(tree.getRootHash()[0]).toEqual(expected.getRootHash()[0]);
+  });
+
+  it('should keep the previous tree when a stream build fails', async () => {
+    const store = new CountingStore();
+    const tree = new TernaryMeshTree({ ...defaultConfig(), store });
+    await tree.build(blocks);
+    const [root] = tree.getRootHash();
+    const fired: string[] = [];
+    tree.on('build', () => fired.push('build'));
+    tree.on('rootChanged', () => fired.push('rootChanged'));
+
+    async function* failing() {
+      yield enc.encode('n0');
+      yield enc.encode('n1');
+      throw new Error('source failed');
+    }
+    const before = store.batches;
+    await expect(tree.buildFromStream(failing())).rejects.toThrow(
+      /source failed/
+    );
+
+    expect(store.batches).toBe(before);
+    expect(fired).toEqual([]);
+    expect(tree.getRootHash()[0]).toEqual(root);
+    expect(tree.getLeafCount()).toBe(9);
+    expect(await tree.verify(4, blocks[4])).toEqual([true, null]);
+    expect(
+      new TernaryMeshTree({ ...defaultConfig(), store }).getRootHash()[0]
+    ).toEqual(root);
+  });
+
+  it('should not commit versions during a transaction', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    await expect(
+      tree.transaction(async tx => {
+        await tx.update(0, enc.encode('a'));
+        tree.commit();
+      })
+    ).rejects.toThrow(TMTError);
+    expect(tree.getVersions()).toEqual([]);
+  });
+});
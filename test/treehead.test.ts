@@ -0,0 +1,115 @@
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  createTreeHead,
+  decodeTreeHead,
+  encodeTreeHead,
+  generateSigningKey,
+  signTreeHead,
+  TMTError,
+  verifyProofAgainstTreeHead,
+  verifyTreeHead,
+} from '../src';
+
+describe('signed tree heads', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 10 }, (_, i) => enc.encode(`h${i}`));
+
+  async function signedTree() {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const keys = await generateSigningKey();
+    const sth = await signTreeHead(
+      createTreeHead(tree, 1700000000000),
+      keys.privateKey
+    );
+    return { tree, keys, sth };
+  }
+
+  it('should encode heads canonically', async () => {
+    const tree = new TernaryMeshTree();
+    await tree.build(blocks);
+    const head = createTreeHead(tree, 1700000000123);
+    expect(head).toMatchObject({
+      leafCount: 10,
+      height: 4,
+      hashScheme: 'tagged',
+      hasher: 'blake3',
+    });
+
+    const bytes = encodeTreeHead(head);
+    expect(decodeTreeHead(bytes)).toEqual(head);
+    expect(encodeTreeHead({ ...head })).toEqual(bytes);
+
+    expect(() => decodeTreeHead(bytes.slice(0, bytes.length - 1))).toThrow(
+      TMTError
+    );
+    const bad = new Uint8Array(bytes);
+    bad[0] ^= 1;
+    expect(() => decodeTreeHead(bad)).toThrow(/magic/);
+    expect(() => encodeTreeHead({ ...head, timestamp: -1 })).toThrow(TMTError);
+  });
+
+  it('should sign and verify heads', async () => {
+    const { keys, sth } = await signedTree();
+    expect(sth.signature).toHaveLength(64);
+    expect(await verifyTreeHead(sth, keys.publicKey)).toEqual([true, null]);
+
+    const other = await generateSigningKey();
+    expect(await verifyTreeHead(sth, other.publicKey)).toEqual([false, null]);
+    expect(
+      await verifyTreeHead({ ...sth, leafCount: 11 }, keys.publicKey)
+    ).toEqual([false, null]);
+    expect(
+      await verifyTreeHead(
+        { ...sth, timestamp: sth.timestamp + 1 },
+        keys.publicKey
+      )
+    ).toEqual([false, null]);
+
+    const [ok, err] = await verifyTreeHead(sth, keys.publicKey.slice(1));
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(TMTError);
+    await expect(signTreeHead(sth, new Uint8Array(16))).rejects.toThrow(
+      /invalid key/
+    );
+  });
+
+  it('should verify proofs against a signed head', async () => {
+    const { tree, keys, sth } = await signedTree();
+    const proof = tree.generateProof(7);
+    expect(
+      await verifyProofAgainstTreeHead(sth, keys.publicKey, proof, blocks[7])
+    ).toEqual([true, null]);
+    expect(
+      (
+        await verifyProofAgainstTreeHead(sth, keys.publicKey, proof, blocks[6])
+      )[0]
+    ).toBe(false);
+
+    // a head re-signed by someone else
+    const forger = await generateSigningKey();
+    const forged = await signTreeHead(sth, forger.privateKey);
+    expect(
+      (
+        await verifyProofAgainstTreeHead(
+          forged,
+          keys.publicKey,
+          proof,
+          blocks[7]
+        )
+      )[0]
+    ).toBe(false);
+
+    // a proof from a taller tree is not a leaf of the signed one
+    await tree.appendBatch(blocks.concat(blocks));
+    const tall = tree.generateProof(7);
+    const [ok, err] = await verifyProofAgainstTreeHead(
+      sth,
+      keys.publicKey,
+      tall,
+      blocks[7]
+    );
+    expect(ok).toBe(false);
+    expect(err).toBeInstanceOf(TMTError);
+  });
+});
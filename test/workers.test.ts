@@ -0,0 +1,131 @@
+import { TextEncoder } from 'util';
+import TernaryMeshTree, {
+  blake3Hasher,
+  defaultConfig,
+  HashPool,
+  HashScheme,
+  serveHashWorker,
+  sha256Hasher,
+  WorkerFactory,
+  WorkerScope,
+} from '../src';
+
+// inThreadFactory runs serveHashWorker on the main thread, the way a Web
+// Worker script would.
+const inThreadFactory: WorkerFactory = onMessage => {
+  const scope: WorkerScope = {
+    onmessage: null,
+    postMessage: res => setTimeout(() => onMessage(res), 0),
+  };
+  serveHashWorker(scope);
+  return {
+    post: req => scope.onmessage!({ data: req } as MessageEvent),
+    terminate: () => undefined,
+  };
+};
+
+describe('worker pool', () => {
+  const enc = new TextEncoder();
+  const blocks = Array.from({ length: 200 }, (_, i) => enc.encode(`b${i}`));
+
+  async function rootOf(cfg = defaultConfig()) {
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(blocks);
+    await tree.close();
+    return tree.getRootHash()[0];
+  }
+
+  const schemes: HashScheme[] = ['tagged', 'legacy'];
+  for (const hashScheme of schemes) {
+    it(`should match the serial build with worker_threads (${hashScheme})`, async () => {
+      const serial = await rootOf({ ...defaultConfig(), hashScheme });
+      const pooled = await rootOf({
+        ...defaultConfig(),
+        hashScheme,
+        workers: 2,
+        workerBatchSize: 7,
+        parallelThreshold: 4,
+      });
+      expect(pooled).toEqual(serial);
+    });
+  }
+
+  it('should hash with sha256 on workers', async () => {
+    const cfg = { ...defaultConfig(), hasher: sha256Hasher };
+    const serial = await rootOf(cfg);
+    for (const workerFactory of [undefined, inThreadFactory]) {
+      const pooled = await rootOf({
+        ...cfg,
+        workers: 2,
+        parallelThreshold: 4,
+        workerFactory,
+      });
+      expect(pooled).toEqual(serial);
+    }
+  });
+
+  it('should accept a custom worker factory', async () => {
+    const cfg = {
+      ...defaultConfig(),
+      workers: 3,
+      workerBatchSize: 10,
+      parallelThreshold: 1,
+      workerFactory: inThreadFactory,
+    };
+    const tree = new TernaryMeshTree(cfg);
+    await tree.build(blocks);
+    expect(tree.getRootHash()[0]).toEqual(await rootOf());
+    expect(await tree.verify(150, blocks[150])).toEqual([true, null]);
+  });
+
+  it('should replace a pool after a worker fails', async () => {
+    let healthy = false;
+    let started = 0;
+    let stopped = 0;
+    const flaky: WorkerFactory = (onMessage, onError) => {
+      started++;
+      if (healthy) {
+        return inThreadFactory(onMessage, onError);
+      }
+      return {
+        post: () => setTimeout(() => onError(new Error('boom')), 0),
+        terminate: () => {
+          stopped++;
+        },
+      };
+    };
+    const tree = new TernaryMeshTree({
+      ...defaultConfig(),
+      workers: 2,
+      parallelThreshold: 4,
+      workerFactory: flaky,
+    });
+
+    await expect(tree.build(blocks)).rejects.toThrow('worker error: boom');
+    expect(stopped).toBe(2);
+    expect(tree.getRootHash()[1]).toBe(false);
+
+    healthy = true;
+    await tree.build(blocks);
+    expect(started).toBe(4);
+    expect(tree.getRootHash()[0]).toEqual(await rootOf());
+    await tree.close();
+  });
+
+  it('should reject pending work when a worker fails', async () => {
+    const broken: WorkerFactory = (_, onError) => ({
+      post: () => setTimeout(() => onError(new Error('boom')), 0),
+      terminate: () => undefined,
+    });
+    const pool = new HashPool(2, 4, broken);
+    const failed = () => pool.hash(blocks, 0, blake3Hasher);
+    await expect(failed()).rejects.toThrow('worker error: boom');
+    await expect(failed()).rejects.toThrow('worker error: boom');
+
+    const closed = new HashPool(1, 4, inThreadFactory);
+    await closed.close();
+    await expect(closed.hash(blocks, 0, blake3Hasher)).rejects.toThrow(
+      'pool closed'
+    );
+  });
+});
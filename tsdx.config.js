@@ -0,0 +1,13 @@
+// The CLI (src/cli.ts) is built as its own entry, to dist/cli.*.js, so the
+// library bundle does not carry it. bin/tmt.js runs dist/cli.
+module.exports = {
+  rollup(config, options) {
+    if (/cli\.ts$/.test(options.input)) {
+      config.output.file = config.output.file.replace(
+        /tmt-ts(?=\.[^/]*$)/,
+        'cli'
+      );
+    }
+    return config;
+  },
+};